@@ -1,14 +1,73 @@
 import * as fs from 'node:fs';
-import { type Config, DEFAULT_IGNORE_PATTERNS, type OutputFormat, getConfig } from '../config';
-import { getCached, setCache } from '../core/cache';
-import { filterIgnoredFiles, getFileNameFromDiff, splitDiffByFile } from '../core/diff-parser';
+import {
+  type Config,
+  DEFAULT_IGNORE_PATTERNS,
+  type OutputFormat,
+  getConfig,
+  getProviderOptions,
+} from '../config';
+import { getCached, getCachedValue, setCache, setCachedValue } from '../core/cache';
+import { chunkDiff } from '../core/chunker';
+import { buildDiffContext } from '../core/context';
+import {
+  type ParsedFile,
+  filterIgnoredFiles,
+  getDiffStats,
+  getFileNameFromDiff,
+  parseDiff,
+  splitDiffByFile,
+  stubGeneratedFiles,
+} from '../core/diff-parser';
 import { renderSideBySide } from '../core/diff-renderer';
-import { getGitDiff, getStagedDiff, hasChanges, isGitRepo, readDiffFromFile } from '../core/git';
-import { getFormatter } from '../output';
-import { type SummaryResult, createProvider } from '../providers';
+import { FailOnError, locateFindings, matchesFailOn, parseFailOn } from '../core/findings';
+import type { GeneratedFile } from '../core/generated';
+import {
+  type CommitInfo,
+  getCommitPatch,
+  getGitDiff,
+  getRevList,
+  getStagedDiff,
+  hasChanges,
+  isGitRepo,
+  readDiffFromFile,
+} from '../core/git';
+import type { ExcludedFile } from '../core/ignore';
+import {
+  type AggregateResult,
+  type FileReport,
+  type FormatOptions,
+  type RiskReport,
+  createTerminalStream,
+  formatCheckstyleReport,
+  formatJUnitReport,
+  getAggregateFormatter,
+  getFormatter,
+} from '../output';
+import {
+  type Finding,
+  type LLMProvider,
+  PROVIDER_CONCURRENCY,
+  type ProviderName,
+  type SummaryResult,
+  createProvider,
+  parseJsonObject,
+} from '../providers';
 import { createColors } from '../utils/colors';
-import { stopSpinner, withSpinner } from '../utils/spinner';
-import { analyzeTokens, shouldWarnAboutTokens } from '../utils/tokens';
+import { mapWithConcurrency } from '../utils/pool';
+import { createProgressDisplay } from '../utils/progress';
+import { stopSpinner, updateSpinner, withSpinner } from '../utils/spinner';
+import { analyzeTokens, countTokens, getTokenLimit } from '../utils/tokens';
+import { runInteractiveMode } from './interactive';
+
+// Shape of "risks" and "tests" items, shared by all analysis prompts
+const FINDING_FORMAT = `Each item in "risks" and "tests" is an object:
+{ "text": "...", "severity": "low" | "medium" | "high" | "critical", "category": "security" | "performance" | "correctness" | "compatibility" | "maintainability", "file": "path/from/diff", "startLine": 10, "endLine": 12 }
+"severity" and "category" apply to risks. "file", "startLine" and "endLine" point at lines in the NEW version of a file in the diff; omit them when an item is not about specific lines.`;
+
+// Labels for "changeType", shared by all analysis prompts. `diff-intent changelog` turns
+// them into Keep a Changelog sections.
+const CHANGE_TYPES = `"feature" | "bugfix" | "security" | "removal" | "refactor" | "config" | "docs" | "test"`;
+const CHANGE_TYPE_FORMAT = `"security" is a fix for a vulnerability; "removal" removes a feature, option or public API.`;
 
 // Overview prompt for full diff analysis - concise, high-level
 const OVERVIEW_PROMPT = `You are a senior engineer reviewing a git diff.
@@ -18,11 +77,14 @@ Given the diff, provide a HIGH-LEVEL OVERVIEW. Focus on the big picture, not ind
 Respond ONLY with a JSON object:
 {
   "purpose": ["1-2 sentences describing the overall goal of these changes"],
-  "changeType": ["refactor" | "feature" | "bugfix" | "config" | "docs" | "test"],
-  "risks": ["high-level risks or concerns, if any"],
-  "tests": ["general testing areas to cover"]
+  "changeType": [${CHANGE_TYPES}],
+  "risks": [{ "text": "high-level risk or concern", "severity": "medium", "category": "correctness" }],
+  "tests": [{ "text": "general testing area to cover" }]
 }
 
+${FINDING_FORMAT}
+${CHANGE_TYPE_FORMAT}
+
 Keep each array to 1-3 items maximum. Be concise and focus on WHAT and WHY, not HOW.`;
 
 // Detailed prompt for per-file analysis - thorough, specific
@@ -37,24 +99,116 @@ Analyze this file's changes in detail. Be specific about:
 Respond ONLY with a JSON object:
 {
   "purpose": ["specific changes made in this file"],
-  "changeType": ["detailed description of change type and scope"],
-  "risks": ["specific things that could break, edge cases, regressions"],
-  "tests": ["specific test cases with example inputs/outputs if applicable"]
+  "changeType": [${CHANGE_TYPES}, "detailed description of change type and scope"],
+  "risks": [{ "text": "specific thing that could break", "severity": "high", "category": "correctness", "file": "src/app.ts", "startLine": 42, "endLine": 48 }],
+  "tests": [{ "text": "specific test case with example inputs/outputs", "file": "src/app.ts", "startLine": 42 }]
 }
 
+${FINDING_FORMAT}
+${CHANGE_TYPE_FORMAT}
+
+The first "changeType" item is a single label; the following items describe the change.
 Be thorough and specific to this file's changes.`;
 
+// Reduce prompt for merging partial summaries of a chunked diff
+const REDUCE_PROMPT = `You are a senior engineer reviewing a large git diff that was split into chunks.
+
+You are given a JSON array of partial analyses, one per chunk. Merge them into a single
+HIGH-LEVEL OVERVIEW of the whole change: deduplicate, combine related items, and keep
+only the most important points.
+
+Respond ONLY with a JSON object:
+{
+  "purpose": ["1-2 sentences describing the overall goal of these changes"],
+  "changeType": [${CHANGE_TYPES}],
+  "risks": [{ "text": "high-level risk or concern", "severity": "medium", "category": "correctness" }],
+  "tests": [{ "text": "general testing area to cover" }]
+}
+
+${FINDING_FORMAT}
+${CHANGE_TYPE_FORMAT}
+
+Keep file and line locations from the partial analyses when you keep an item.
+Keep each array to 1-3 items maximum.`;
+
+// Aggregate prompt for the executive summary of a per-file analysis
+const AGGREGATE_PROMPT = `You are a senior engineer reviewing a pull request.
+
+You are given a JSON array of per-file analyses, each with the file path. Write an
+EXECUTIVE SUMMARY of the whole change for a reviewer: what it does overall, how the files
+relate to each other, and the most important risks and tests across all files.
+
+Respond ONLY with a JSON object:
+{
+  "purpose": ["1-3 sentences describing the overall goal of these changes"],
+  "changeType": [${CHANGE_TYPES}],
+  "risks": [{ "text": "most important risk across the change", "severity": "high", "category": "correctness", "file": "src/app.ts", "startLine": 42 }],
+  "tests": [{ "text": "most important test to add" }]
+}
+
+${FINDING_FORMAT}
+${CHANGE_TYPE_FORMAT}
+
+Keep file and line locations from the per-file analyses when you keep an item.
+Keep each array to 1-5 items maximum. Do NOT repeat every file's findings.`;
+
+// Compares a commit message with the change the commit makes, for --per-commit
+const MESSAGE_CHECK_PROMPT = `You are a senior engineer reviewing the commits of a branch.
+
+You are given a commit message, an analysis of the commit and its diff. Decide whether the message describes the change. A short or informal message is fine as long as it is accurate. It does NOT match when it names a different kind of change than the diff makes (e.g. "docs" for a change to authentication logic), or leaves out the main change.
+
+Respond ONLY with a JSON object:
+{
+  "matches": true | false,
+  "reason": "when it does not match: what the message says and what the commit actually changes, in one sentence"
+}`;
+
+// The verdict is one sentence
+const MESSAGE_CHECK_MAX_TOKENS = 200;
+
+// Share of the model context window a single chunk may use; the rest is left for the
+// system prompt and the response
+const CHUNK_BUDGET_RATIO = 0.5;
+
 export interface AnalyzeOptions {
-  provider?: string;
+  provider?: ProviderName;
   model?: string;
   format?: OutputFormat;
   noColor?: boolean;
   perFile?: boolean;
+  concurrency?: number;
   sideBySide?: boolean;
   showCost?: boolean;
   interactive?: boolean;
   file?: string;
   noCache?: boolean;
+  noStream?: boolean;
+  perCommit?: boolean;
+  failOn?: string;
+  junit?: string;
+  checkstyle?: string;
+  verbose?: boolean;
+  context?: number | true; // token budget for surrounding code, or true for the default
+}
+
+// Budget for --context without a number, when the config does not set contextTokens
+const DEFAULT_CONTEXT_TOKENS = 2000;
+
+/**
+ * With --verbose, list the files left out of the analysis and the pattern that excluded each.
+ */
+async function reportExcludedFiles(
+  excluded: ExcludedFile[],
+  options: AnalyzeOptions
+): Promise<void> {
+  if (!options.verbose || excluded.length === 0) return;
+
+  const colors = await createColors(!options.noColor);
+  const width = Math.max(...excluded.map((file) => file.path.length));
+  console.error(colors.dim(`Excluded ${excluded.length} file${excluded.length === 1 ? '' : 's'}:`));
+  for (const { path, rule } of excluded) {
+    console.error(colors.dim(`  ${path.padEnd(width)}  ${rule.pattern} (${rule.source})`));
+  }
 }
 
 async function readDiffInput(target?: string, file?: string): Promise<string> {
@@ -63,6 +217,14 @@ async function readDiffInput(target?: string, file?: string): Promise<string> {
     return readDiffFromFile(file);
   }
 
+  // An explicit target wins over stdin, which is not a TTY in git hooks and CI jobs
+  if (target) {
+    if (!isGitRepo()) {
+      throw new Error('Not a git repository. Use --file to analyze a diff file.');
+    }
+    return getGitDiff(target);
+  }
+
   // Check for piped input (stdin)
   if (!process.stdin.isTTY) {
     return fs.readFileSync(0, 'utf-8');
@@ -75,11 +237,6 @@ async function readDiffInput(target?: string, file?: string): Promise<string> {
     );
   }
 
-  // If target is provided, use it
-  if (target) {
-    return getGitDiff(target);
-  }
-
   // Default: staged changes
   const changes = hasChanges();
   if (changes.staged) {
@@ -97,61 +254,660 @@ async function readDiffInput(target?: string, file?: string): Promise<string> {
   );
 }
 
-async function analyzeDiff(
+// Largest diff, in tokens, that is sent to the model in a single request
+export function getChunkBudget(config: Config, model: string): number {
+  return config.chunkTokens || Math.floor(getTokenLimit(model) * CHUNK_BUDGET_RATIO);
+}
+
+/**
+ * The diff as input for prompts that need the whole change in one request. A diff over
+ * the chunk budget is analyzed (in chunks) first and replaced by that analysis and the
+ * list of changed files.
+ */
+export async function condenseDiff(
   diff: string,
   config: Config,
   options: AnalyzeOptions,
-  promptType: 'overview' | 'detailed' = 'overview'
-): Promise<SummaryResult> {
-  const providerName = (options.provider || config.provider) as any;
+  model: string
+): Promise<string> {
+  if (countTokens(diff) <= getChunkBudget(config, model)) {
+    return diff;
+  }
+
+  const { result } = await analyzeDiff(diff, config, options);
+  const files = parseDiff(diff).map((f) => `- ${f.isDeleted ? f.oldPath : f.newPath}`);
+  return `The diff is too large to include. Analysis of the whole diff:
+${JSON.stringify({ purpose: result.purpose, changeType: result.changeType }, null, 2)}
+
+Changed files:
+${files.join('\n')}`;
+}
+
+export interface AnalyzeDiffOptions {
+  promptType?: 'overview' | 'detailed';
+  // Receives streamed response text as it arrives
+  onText?: (text: string) => void;
+  // Receives progress messages, including request retries, instead of the spinner and
+  // console warnings. Used when several diffs are analyzed concurrently.
+  onStatus?: (text: string) => void;
+}
+
+export interface AnalyzeDiffResult {
+  result: SummaryResult;
+  cached: boolean;
+}
+
+export async function analyzeDiff(
+  diff: string,
+  config: Config,
+  options: AnalyzeOptions,
+  analyzeOptions: AnalyzeDiffOptions = {}
+): Promise<AnalyzeDiffResult> {
+  const { promptType = 'overview', onText, onStatus } = analyzeOptions;
+  const providerName = options.provider || config.provider;
   const model = options.model || config.model;
-  const provider = createProvider(providerName, model);
+  const providerOptions = getProviderOptions(config);
+  const provider = createProvider(providerName, model, {
+    ...providerOptions,
+    // Retries are reported on the caller's progress line when it has one
+    http: onStatus ? { ...providerOptions.http, onStatus } : providerOptions.http,
+  });
 
   // Select the appropriate prompt
   const prompt =
     config.customPrompt || (promptType === 'detailed' ? DETAILED_PROMPT : OVERVIEW_PROMPT);
 
+  // Diffs that would crowd the context window are analyzed in token-budgeted chunks
+  const tokenInfo = analyzeTokens(diff, provider.getModel());
+  const chunkBudget = getChunkBudget(config, provider.getModel());
+  const chunks = tokenInfo.count > chunkBudget ? chunkDiff(diff, chunkBudget) : [diff];
+
+  // Surrounding code goes along with a diff that fits in one request, within what is left
+  // of the chunk budget
+  const contextBudget = Math.min(config.contextTokens || 0, chunkBudget - tokenInfo.count);
+  const context =
+    chunks.length === 1 && contextBudget > 0
+      ? buildDiffContext(parseDiff(diff), contextBudget)
+      : '';
+  const input = context ? `${diff}\n\n${context}` : diff;
+
   // Check cache first (unless disabled)
   const useCache = !options.noCache && config.cache !== false;
   if (useCache) {
-    const cached = getCached(diff, provider.name, provider.getModel(), config.cacheTTL);
+    const cached = getCached(input, provider.name, provider.getModel(), config.cacheTTL);
     if (cached) {
-      return cached;
+      return { result: cached, cached: true };
     }
   }
 
-  // Check token count and warn if needed
-  const tokenInfo = analyzeTokens(diff, provider.getModel());
-  if (tokenInfo.warning) {
-    const colors = await createColors(!options.noColor);
-    console.error(colors.warning(`Warning: ${tokenInfo.warning}`));
+  if (!onStatus) {
+    if (chunks.length > 1) {
+      const colors = await createColors(!options.noColor);
+      console.error(
+        colors.warning(
+          `Large diff: ${tokenInfo.count} tokens, analyzing in ${chunks.length} chunks of up to ${chunkBudget} tokens`
+        )
+      );
+    } else if (tokenInfo.warning) {
+      const colors = await createColors(!options.noColor);
+      console.error(colors.warning(`Warning: ${tokenInfo.warning}`));
+    }
   }
 
   // Call the LLM
-  const result = await withSpinner(
-    `Analyzing with ${provider.name} (${provider.getModel()})...`,
-    () => provider.summarize(diff, prompt),
-    { successText: 'Analysis complete' }
-  );
+  const summarize = () => {
+    if (chunks.length > 1) {
+      return mapReduceSummarize(provider, chunks, prompt, onStatus);
+    }
+    if (onText && provider.summarizeStream) {
+      // The spinner gives way to the streamed output as soon as the first token arrives
+      return provider.summarizeStream(input, prompt, (text) => {
+        stopSpinner();
+        onText(text);
+      });
+    }
+    return provider.summarize(input, prompt);
+  };
+
+  let result = onStatus
+    ? await summarize()
+    : await withSpinner(`Analyzing with ${provider.name} (${provider.getModel()})...`, summarize, {
+        successText: 'Analysis complete',
+      });
+
+  // Drop file/line locations that do not point into the diff
+  result = locateFindings(result, parseDiff(diff));
 
   // Cache the result
   if (useCache) {
-    setCache(diff, provider.name, provider.getModel(), result);
+    setCache(input, provider.name, provider.getModel(), result);
+  }
+
+  return { result, cached: false };
+}
+
+/**
+ * Summarize each chunk independently (map), then merge the partial results with a
+ * final call (reduce). Token usage and cost are summed across all calls.
+ */
+async function mapReduceSummarize(
+  provider: LLMProvider,
+  chunks: string[],
+  prompt: string,
+  onStatus: (text: string) => void = updateSpinner
+): Promise<SummaryResult> {
+  const partials: SummaryResult[] = [];
+
+  for (let i = 0; i < chunks.length; i++) {
+    onStatus(
+      `Analyzing chunk ${i + 1}/${chunks.length} with ${provider.name} (${provider.getModel()})...`
+    );
+    partials.push(await provider.summarize(chunks[i], prompt));
+  }
+
+  onStatus(`Merging ${partials.length} partial summaries...`);
+  const merged = await provider.summarize(
+    JSON.stringify(
+      partials.map(({ purpose, changeType, risks, tests }) => ({
+        purpose,
+        changeType,
+        risks,
+        tests,
+      })),
+      null,
+      2
+    ),
+    REDUCE_PROMPT
+  );
+
+  const calls = [...partials, merged];
+  return {
+    ...merged,
+    meta: {
+      tokens: calls.reduce((sum, r) => sum + (r.meta?.tokens || 0), 0),
+      cost: calls.reduce((sum, r) => sum + (r.meta?.cost || 0), 0),
+      model: merged.meta?.model,
+    },
+  };
+}
+
+/**
+ * Split a diff into the files to analyze one by one. Generated and vendored files are left
+ * out: their stubs say all there is to say, and they are listed apart in the report.
+ */
+export function splitFilesToAnalyze(diff: string, generated: GeneratedFile[]): string[] {
+  const paths = new Set(generated.map((file) => file.path));
+  return splitDiffByFile(diff).filter((file) => !paths.has(getFileNameFromDiff(file)));
+}
+
+/**
+ * Analyze each file's diff with a bounded number of concurrent requests, showing live
+ * progress, then combine the results into one report with an executive summary. Files
+ * that fail are kept in the report with their error.
+ */
+export async function analyzeFiles(
+  diff: string,
+  files: string[],
+  config: Config,
+  options: AnalyzeOptions
+): Promise<AggregateResult> {
+  const providerName = (options.provider || config.provider) as ProviderName;
+  const concurrency = config.concurrency || PROVIDER_CONCURRENCY[providerName] || 1;
+  const fileNames = files.map(getFileNameFromDiff);
+
+  const progress = await createProgressDisplay(
+    `Analyzing ${files.length} files with ${providerName}, ${concurrency} at a time`,
+    fileNames,
+    { colors: !options.noColor && config.colors !== false }
+  );
+
+  const outcomes = await mapWithConcurrency(files, concurrency, async (fileDiff, index) => {
+    progress.update(index, 'running');
+    try {
+      const outcome = await analyzeDiff(fileDiff, config, options, {
+        promptType: 'detailed',
+        onStatus: (text) => progress.update(index, 'running', text),
+      });
+      progress.update(index, outcome.cached ? 'cached' : 'done');
+      return outcome.result;
+    } catch (error) {
+      progress.update(index, 'failed', error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  });
+  progress.stop();
+
+  const reports: FileReport[] = outcomes.map((outcome, index) => {
+    const { additions, deletions } = getDiffStats(parseDiff(files[index]));
+    const report: FileReport = { path: fileNames[index], additions, deletions };
+    if (outcome.status === 'fulfilled') {
+      report.result = outcome.value;
+    } else {
+      report.error =
+        outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+    }
+    return report;
+  });
+
+  return combineReports(diff, reports, config, options);
+}
+
+/**
+ * Combine per-file or per-commit reports into one report with an executive summary.
+ * A single analyzed entry is its own summary.
+ */
+async function combineReports(
+  diff: string,
+  reports: FileReport[],
+  config: Config,
+  options: AnalyzeOptions,
+  kind: AggregateResult['kind'] = 'files'
+): Promise<AggregateResult> {
+  const analyzed = reports.filter((r) => r.result).map((r) => r.result as SummaryResult);
+  if (analyzed.length === 0) {
+    throw new Error(`None of the ${reports.length} ${kind} could be analyzed: ${reports[0].error}`);
+  }
+
+  const summary =
+    analyzed.length === 1
+      ? analyzed[0]
+      : await summarizeFiles(diff, reports, config, options, kind);
+
+  const calls = analyzed.length === 1 ? analyzed : [...analyzed, summary];
+  return {
+    summary,
+    files: reports,
+    ...(kind === 'commits' ? { kind } : {}),
+    meta: {
+      tokens: calls.reduce((sum, r) => sum + (r.meta?.tokens || 0), 0),
+      cost: calls.reduce((sum, r) => sum + (r.meta?.cost || 0), 0),
+      model: summary.meta?.model,
+    },
+  };
+}
+
+export interface CommitReport {
+  commit: CommitInfo;
+  additions: number;
+  deletions: number;
+  result?: SummaryResult; // missing for commits without changes after ignore patterns
+  mismatch?: string; // how the commit message misrepresents the change, when checked
+  error?: string;
+}
+
+export interface AnalyzeCommitsOptions {
+  // Also check each commit message against the change it describes
+  checkMessages?: boolean;
+}
+
+/**
+ * Analyze each commit's own diff with a bounded number of concurrent requests, showing
+ * live progress. Commits are analyzed like any other diff, so their results are cached
+ * and shared with a plain `diff-intent <sha>^..<sha>` run.
+ */
+export async function analyzeCommits(
+  commits: CommitInfo[],
+  config: Config,
+  options: AnalyzeOptions,
+  analyzeOptions: AnalyzeCommitsOptions = {}
+): Promise<CommitReport[]> {
+  const providerName = (options.provider || config.provider) as ProviderName;
+  const concurrency = config.concurrency || PROVIDER_CONCURRENCY[providerName] || 1;
+
+  const progress = await createProgressDisplay(
+    `Analyzing ${commits.length} commits with ${providerName}, ${concurrency} at a time`,
+    commits.map((c) => `${c.sha.slice(0, 7)} ${c.subject}`),
+    { colors: !options.noColor && config.colors !== false }
+  );
+
+  const outcomes = await mapWithConcurrency(commits, concurrency, async (commit, index) => {
+    progress.update(index, 'running');
+    try {
+      const filtered = filterIgnoredFiles(
+        getCommitPatch(commit.sha),
+        config.ignore ?? DEFAULT_IGNORE_PATTERNS
+      );
+      const report: CommitReport = { commit, ...getDiffStats(parseDiff(filtered)) };
+      const { diff } = stubGeneratedFiles(filtered);
+      if (!diff.trim()) {
+        progress.update(index, 'done', 'no changes');
+        return report;
+      }
+
+      const outcome = await analyzeDiff(diff, config, options, {
+        onStatus: (text) => progress.update(index, 'running', text),
+      });
+      report.result = outcome.result;
+      let cached = outcome.cached;
+
+      if (analyzeOptions.checkMessages) {
+        progress.update(index, 'running', 'Checking the commit message...');
+        const check = await checkCommitMessage(commit, diff, outcome.result, config, options);
+        report.mismatch = check.mismatch;
+        cached = cached && check.cached;
+      }
+
+      progress.update(index, cached ? 'cached' : 'done');
+      return report;
+    } catch (error) {
+      progress.update(index, 'failed', error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  });
+  progress.stop();
+
+  return outcomes.map((outcome, index) =>
+    outcome.status === 'fulfilled'
+      ? outcome.value
+      : {
+          commit: commits[index],
+          additions: 0,
+          deletions: 0,
+          error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+        }
+  );
+}
+
+/**
+ * Ask whether a commit message describes the change the commit makes. The model sees the
+ * message, the analysis of the commit and its diff, or only the changed files when the
+ * diff is too large. Cached by message and diff.
+ */
+async function checkCommitMessage(
+  commit: CommitInfo,
+  diff: string,
+  result: SummaryResult,
+  config: Config,
+  options: AnalyzeOptions
+): Promise<{ mismatch?: string; cached: boolean }> {
+  const provider = createProvider(
+    options.provider || config.provider,
+    options.model || config.model,
+    getProviderOptions(config)
+  );
+
+  const changes =
+    countTokens(diff) <= getChunkBudget(config, provider.getModel())
+      ? `Diff:\n${diff}`
+      : `Changed files:\n${parseDiff(diff)
+          .map((f) => `- ${f.isDeleted ? f.oldPath : f.newPath}`)
+          .join('\n')}`;
+  const input = `Commit message:
+${[commit.subject, commit.body].filter(Boolean).join('\n\n')}
+
+Analysis of the change:
+${JSON.stringify({ purpose: result.purpose, changeType: result.changeType }, null, 2)}
+
+${changes}`;
+
+  const cacheKey = `${MESSAGE_CHECK_PROMPT}\n${input}`;
+  const useCache = !options.noCache && config.cache !== false;
+  const cached = useCache
+    ? getCachedValue<{ mismatch?: string }>(
+        cacheKey,
+        provider.name,
+        provider.getModel(),
+        config.cacheTTL
+      )
+    : null;
+  if (cached) {
+    return { ...cached, cached: true };
+  }
+
+  const response = await provider.chat(MESSAGE_CHECK_PROMPT, [{ role: 'user', content: input }], {
+    maxTokens: MESSAGE_CHECK_MAX_TOKENS,
+  });
+  const obj = parseJsonObject(response.content);
+  const check =
+    obj.matches === false && typeof obj.reason === 'string' && obj.reason.trim()
+      ? { mismatch: obj.reason.trim() }
+      : {};
+
+  if (useCache) {
+    setCachedValue(cacheKey, provider.name, provider.getModel(), check);
+  }
+  return { ...check, cached: false };
+}
+
+// Fail the command once a report with failed files has been shown
+export function assertFilesAnalyzed(result: AggregateResult): void {
+  const failed = result.files.filter((f) => f.error).length;
+  if (failed > 0) {
+    throw new Error(
+      `${failed} of ${result.files.length} ${result.kind ?? 'files'} could not be analyzed.`
+    );
+  }
+}
+
+// Every file's risks followed by the executive summary's, without repeats
+function collectRisks(result: AggregateResult): Finding[] {
+  const seen = new Set<string>();
+  return [...result.files.flatMap((f) => f.result?.risks ?? []), ...result.summary.risks].filter(
+    (risk) => {
+      const key = `${risk.file}:${risk.startLine}:${risk.text}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }
+  );
+}
+
+/**
+ * Write the --junit and --checkstyle reports and fail the command when risks match the
+ * --fail-on option or the failOn config key. Call it once the analysis has been printed.
+ */
+export function checkRisks(
+  result: SummaryResult | AggregateResult,
+  files: ParsedFile[],
+  config: Config,
+  options: Pick<AnalyzeOptions, 'junit' | 'checkstyle'>
+): void {
+  const aggregate = 'summary' in result;
+  const failOn = parseFailOn(config.failOn ?? []);
+  const report: RiskReport = {
+    risks: aggregate ? collectRisks(result) : result.risks,
+    files,
+    failOn,
+    errors: aggregate
+      ? result.files.flatMap((f) => (f.error ? [{ path: f.path, error: f.error }] : []))
+      : [],
+  };
+
+  if (options.junit) {
+    fs.writeFileSync(options.junit, formatJUnitReport(report));
+  }
+  if (options.checkstyle) {
+    fs.writeFileSync(options.checkstyle, formatCheckstyleReport(report));
+  }
+
+  const matched = report.risks.filter((risk) => matchesFailOn(risk, failOn)).length;
+  if (matched > 0) {
+    throw new FailOnError(
+      `${matched} risk(s) matched the fail-on threshold: ${failOn.join(', ')}.`,
+      matched
+    );
+  }
+}
+
+/**
+ * Synthesize an executive summary of the whole diff from the per-file analyses. Cached
+ * like a regular analysis, keyed by the per-file results it was built from.
+ */
+async function summarizeFiles(
+  diff: string,
+  reports: FileReport[],
+  config: Config,
+  options: AnalyzeOptions,
+  kind: AggregateResult['kind'] = 'files'
+): Promise<SummaryResult> {
+  const providerName = options.provider || config.provider;
+  const provider = createProvider(
+    providerName,
+    options.model || config.model,
+    getProviderOptions(config)
+  );
+
+  const input = JSON.stringify(
+    reports
+      .filter((r) => r.result)
+      .map(({ path, result }) => ({
+        file: path,
+        purpose: result?.purpose,
+        changeType: result?.changeType,
+        risks: result?.risks,
+        tests: result?.tests,
+      })),
+    null,
+    2
+  );
+  const cacheKey = `${AGGREGATE_PROMPT}\n${input}`;
+
+  const useCache = !options.noCache && config.cache !== false;
+  if (useCache) {
+    const cached = getCached(cacheKey, provider.name, provider.getModel(), config.cacheTTL);
+    if (cached) {
+      return cached;
+    }
+  }
+
+  let result = await withSpinner(
+    `Summarizing ${reports.length} ${kind} with ${provider.name} (${provider.getModel()})...`,
+    () => provider.summarize(input, AGGREGATE_PROMPT),
+    { successText: 'Summary complete' }
+  );
+  result = locateFindings(result, parseDiff(diff));
+
+  if (useCache) {
+    setCache(cacheKey, provider.name, provider.getModel(), result);
   }
 
   return result;
 }
 
+/**
+ * Analyze every commit in a range on its own and combine the results into one report
+ * with an entry per commit. A commit whose message does not describe its change gets a
+ * maintainability risk saying so.
+ */
+async function analyzeCommitRange(
+  target: string | undefined,
+  config: Config,
+  options: AnalyzeOptions
+): Promise<{ diff: string; generated: GeneratedFile[]; report: AggregateResult }> {
+  if (!target || options.file) {
+    throw new Error('--per-commit needs a commit range, e.g. main..feature or HEAD~3.');
+  }
+  if (!isGitRepo()) {
+    throw new Error('Not a git repository.');
+  }
+
+  // A single commit is the start of the range, like HEAD~3 for the last three commits
+  const range = target.includes('..') ? target : `${target}..HEAD`;
+  const commits = getRevList(range);
+  if (commits.length === 0) {
+    throw new Error(`No commits in ${range}.`);
+  }
+
+  const excluded: ExcludedFile[] = [];
+  const { diff, generated } = stubGeneratedFiles(
+    filterIgnoredFiles(getGitDiff(range), config.ignore ?? DEFAULT_IGNORE_PATTERNS, (file) =>
+      excluded.push(file)
+    )
+  );
+  await reportExcludedFiles(excluded, options);
+  const commitReports = await analyzeCommits(commits, config, options, { checkMessages: true });
+
+  const reports: FileReport[] = commitReports
+    .filter((r) => r.result || r.error)
+    .map(({ commit, additions, deletions, result, mismatch, error }) => {
+      const report: FileReport = {
+        path: `${commit.sha.slice(0, 7)} ${commit.subject}`,
+        additions,
+        deletions,
+      };
+      if (result) {
+        report.result = mismatch
+          ? {
+              ...result,
+              risks: [
+                {
+                  text: `Commit message does not match the change: ${mismatch}`,
+                  severity: 'medium',
+                  category: 'maintainability',
+                },
+                ...result.risks,
+              ],
+            }
+          : result;
+      } else {
+        report.error = error;
+      }
+      return report;
+    });
+  if (reports.length === 0) {
+    throw new Error(`No changes to analyze in ${range} after filtering ignored files.`);
+  }
+
+  return {
+    diff,
+    generated,
+    report: await combineReports(diff, reports, config, options, 'commits'),
+  };
+}
+
 export async function runAnalyze(target?: string, options: AnalyzeOptions = {}): Promise<void> {
   try {
     const config = await getConfig({
-      provider: options.provider as any,
+      provider: options.provider,
       model: options.model,
       outputFormat: options.format,
       colors: !options.noColor,
       showCost: options.showCost,
       cache: !options.noCache,
+      concurrency: options.concurrency,
+      failOn: options.failOn !== undefined ? parseFailOn(options.failOn) : undefined,
+      contextTokens: options.context === true ? undefined : options.context,
     });
+    if (options.context === true && !config.contextTokens) {
+      config.contextTokens = DEFAULT_CONTEXT_TOKENS;
+    }
+
+    if (
+      options.context !== undefined &&
+      options.context !== true &&
+      (!Number.isInteger(options.context) || options.context < 1)
+    ) {
+      throw new Error('--context must be a positive number of tokens.');
+    }
+
+    if (
+      options.concurrency !== undefined &&
+      (!Number.isInteger(options.concurrency) || options.concurrency < 1)
+    ) {
+      throw new Error('--concurrency must be a positive integer.');
+    }
+
+    // Determine output format
+    const format =
+      options.format || config.outputFormat || (process.stdout.isTTY ? 'terminal' : 'markdown');
+    const formatter = getFormatter(format);
+    const useColors = !options.noColor && config.colors !== false && process.stdout.isTTY;
+
+    // One analysis per commit, each checked against its commit message
+    if (options.perCommit) {
+      const { diff, generated, report } = await analyzeCommitRange(target, config, options);
+      const formatOptions = {
+        colors: useColors,
+        showCost: options.showCost,
+        provider: options.provider || config.provider,
+        files: parseDiff(diff),
+        generated,
+      };
+      console.log(await getAggregateFormatter(format)(report, formatOptions));
+      checkRisks(report, formatOptions.files, config, options);
+      assertFilesAnalyzed(report);
+      return;
+    }
 
     // Read diff input
     const rawDiff = await readDiffInput(target, options.file);
@@ -160,214 +916,92 @@ export async function runAnalyze(target?: string, options: AnalyzeOptions = {}):
       throw new Error('No diff content to analyze.');
     }
 
-    const ignorePatterns = config.ignore ?? DEFAULT_IGNORE_PATTERNS;
-    const diff = filterIgnoredFiles(rawDiff, ignorePatterns);
+    const excluded: ExcludedFile[] = [];
+    const { diff, generated } = stubGeneratedFiles(
+      filterIgnoredFiles(rawDiff, config.ignore ?? DEFAULT_IGNORE_PATTERNS, (file) =>
+        excluded.push(file)
+      )
+    );
+    await reportExcludedFiles(excluded, options);
 
     if (!diff.trim()) {
       throw new Error('No diff content to analyze after filtering ignored files.');
     }
 
-    // Determine output format
-    const format =
-      options.format || config.outputFormat || (process.stdout.isTTY ? 'terminal' : 'markdown');
-    const formatter = getFormatter(format);
-    const useColors = !options.noColor && config.colors !== false && process.stdout.isTTY;
-
     // Per-file analysis (detailed)
     if (options.perFile) {
-      const files = splitDiffByFile(diff);
+      const files = splitFilesToAnalyze(diff, generated);
+      const formatOptions = {
+        colors: useColors,
+        showCost: options.showCost,
+        provider: options.provider || config.provider,
+        files: parseDiff(diff),
+        generated,
+      };
+
       if (files.length === 0) {
         // Single chunk, analyze as-is with detailed prompt
-        const result = await analyzeDiff(diff, config, options, 'detailed');
-        const output = await formatter(result, {
-          colors: useColors,
-          showCost: options.showCost,
-          provider: options.provider || config.provider,
-        });
-        console.log(output);
+        const { result } = await analyzeDiff(diff, config, options, { promptType: 'detailed' });
+        console.log(await formatter(result, formatOptions));
+        checkRisks(result, formatOptions.files, config, options);
         return;
       }
 
-      for (const fileDiff of files) {
-        const fileName = getFileNameFromDiff(fileDiff);
-        const colors = await createColors(useColors);
-        console.log(colors.heading(`\n--- ${fileName} ---\n`));
-
-        // Use detailed prompt for per-file analysis
-        const result = await analyzeDiff(fileDiff, config, options, 'detailed');
-        const output = await formatter(result, {
-          colors: useColors,
-          showCost: options.showCost,
-          provider: options.provider || config.provider,
-        });
-        console.log(output);
-      }
+      const report = await analyzeFiles(diff, files, config, options);
+      console.log(await getAggregateFormatter(format)(report, formatOptions));
+      checkRisks(report, formatOptions.files, config, options);
+      assertFilesAnalyzed(report);
       return;
     }
 
     // Side-by-side view
     if (options.sideBySide) {
-      const result = await analyzeDiff(diff, config, options);
+      const { result } = await analyzeDiff(diff, config, options);
       const intentOutput = await formatter(result, {
         colors: false,
         showCost: options.showCost,
         provider: options.provider || config.provider,
+        generated,
       });
       const sideBySide = await renderSideBySide(diff, intentOutput, {
         colors: useColors,
       });
       console.log(sideBySide);
+      checkRisks(result, parseDiff(diff), config, options);
       return;
     }
 
-    // Standard analysis
-    const result = await analyzeDiff(diff, config, options);
-    const output = await formatter(result, {
+    // Standard analysis, streamed to the terminal when possible
+    const formatOptions = {
       colors: useColors,
       showCost: options.showCost || config.showCost,
       provider: options.provider || config.provider,
-    });
+      files: parseDiff(diff),
+      generated,
+    };
+    const stream =
+      format === 'terminal' && process.stdout.isTTY && !options.noStream
+        ? await createTerminalStream(formatOptions)
+        : null;
+    const { result } = await analyzeDiff(diff, config, options, { onText: stream?.push });
+    const output = stream ? await stream.finish(result) : await formatter(result, formatOptions);
     console.log(output);
 
     // Interactive mode
     if (options.interactive && process.stdin.isTTY) {
-      await runInteractiveMode(diff, result, config, options);
+      await runInteractiveMode(diff, result, config, {
+        provider: options.provider,
+        model: options.model,
+        format,
+        colors: useColors,
+        showCost: options.showCost || config.showCost,
+        noCache: options.noCache,
+      });
     }
+
+    checkRisks(result, formatOptions.files, config, options);
   } catch (error) {
     stopSpinner();
     throw error;
   }
 }
-
-async function runInteractiveMode(
-  diff: string,
-  initialResult: SummaryResult,
-  config: Config,
-  options: AnalyzeOptions
-): Promise<void> {
-  const inquirer = await import('inquirer');
-  const colors = await createColors(!options.noColor);
-
-  const followUpPrompts: Record<string, string> = {
-    security: `Analyze the security implications of this diff. Look for:
-- Potential vulnerabilities (injection, XSS, CSRF, etc.)
-- Authentication/authorization issues
-- Data exposure risks
-- Input validation concerns
-Respond with a JSON object: { "securityIssues": ["..."], "recommendations": ["..."] }`,
-
-    performance: `Analyze the performance implications of this diff. Look for:
-- Algorithmic complexity changes
-- Memory usage concerns
-- Database query efficiency
-- Caching implications
-Respond with a JSON object: { "performanceImpact": ["..."], "recommendations": ["..."] }`,
-
-    breaking: `Analyze breaking changes in this diff. Look for:
-- API contract changes
-- Database schema changes
-- Configuration changes
-- Behavioral changes that affect consumers
-Respond with a JSON object: { "breakingChanges": ["..."], "migrationSteps": ["..."] }`,
-
-    alternative: `Suggest alternative approaches for this change. Consider:
-- Different design patterns
-- More efficient implementations
-- Better abstractions
-- Industry best practices
-Respond with a JSON object: { "alternatives": ["..."], "tradeoffs": ["..."] }`,
-  };
-
-  while (true) {
-    console.log('');
-    const { choice } = await inquirer.default.prompt([
-      {
-        type: 'list',
-        name: 'choice',
-        message: 'What would you like to know more about?',
-        choices: [
-          { name: 'Security implications', value: 'security' },
-          { name: 'Performance impact', value: 'performance' },
-          { name: 'Breaking changes', value: 'breaking' },
-          { name: 'Suggest better approach', value: 'alternative' },
-          { name: 'Exit', value: 'exit' },
-        ],
-      },
-    ]);
-
-    if (choice === 'exit') {
-      break;
-    }
-
-    const customPrompt = followUpPrompts[choice];
-    if (!customPrompt) continue;
-
-    try {
-      const providerName = (options.provider || config.provider) as any;
-      const provider = createProvider(providerName, options.model || config.model);
-
-      const result = await withSpinner('Analyzing...', async () => {
-        const response = await fetch(
-          provider.name === 'anthropic'
-            ? 'https://api.anthropic.com/v1/messages'
-            : provider.name === 'openai'
-              ? 'https://api.openai.com/v1/chat/completions'
-              : 'https://api.groq.com/openai/v1/chat/completions',
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              ...(provider.name === 'anthropic'
-                ? {
-                    'x-api-key': process.env.ANTHROPIC_API_KEY!,
-                    'anthropic-version': '2023-06-01',
-                  }
-                : {
-                    Authorization: `Bearer ${
-                      provider.name === 'openai'
-                        ? process.env.OPENAI_API_KEY
-                        : process.env.GROQ_API_KEY
-                    }`,
-                  }),
-            },
-            body: JSON.stringify(
-              provider.name === 'anthropic'
-                ? {
-                    model: provider.getModel(),
-                    max_tokens: 1000,
-                    system: customPrompt,
-                    messages: [{ role: 'user', content: diff }],
-                  }
-                : {
-                    model: provider.getModel(),
-                    max_tokens: 1000,
-                    messages: [
-                      { role: 'system', content: customPrompt },
-                      { role: 'user', content: diff },
-                    ],
-                  }
-            ),
-          }
-        );
-
-        if (!response.ok) {
-          throw new Error(`API error: ${response.status}`);
-        }
-
-        const data = (await response.json()) as any;
-        const content =
-          provider.name === 'anthropic'
-            ? data.content?.[0]?.text
-            : data.choices?.[0]?.message?.content;
-
-        return content || 'No response';
-      });
-
-      console.log('');
-      console.log(colors.heading(`${choice.charAt(0).toUpperCase() + choice.slice(1)} Analysis:`));
-      console.log(result);
-    } catch (error) {
-      console.error(colors.error(`Error: ${error instanceof Error ? error.message : error}`));
-    }
-  }
-}
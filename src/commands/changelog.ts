@@ -0,0 +1,114 @@
+import * as fs from 'node:fs';
+import { getConfig } from '../config';
+import {
+  type ChangelogEntry,
+  changelogSection,
+  formatChangelogSection,
+  insertChangelogSection,
+  mergeUnreleasedEntries,
+} from '../core/changelog';
+import { parseCommitHeader } from '../core/conventional';
+import { type CommitInfo, getCommitDate, getCommitLog, isGitRepo, refExists } from '../core/git';
+import type { SummaryResult } from '../providers';
+import { createColors } from '../utils/colors';
+import { stopSpinner } from '../utils/spinner';
+import { type AnalyzeOptions, analyzeCommits } from './analyze';
+
+export const DEFAULT_CHANGELOG_FILE = 'CHANGELOG.md';
+
+export interface ChangelogOptions
+  extends Pick<AnalyzeOptions, 'provider' | 'model' | 'noCache' | 'noColor' | 'concurrency'> {
+  release?: string;
+  write?: string;
+}
+
+/**
+ * Split "base..head" into its refs. A single ref is the base and HEAD the head.
+ */
+function parseRange(range: string): { base: string; head: string } {
+  const [base, head] = range.split(/\.{2,3}/);
+  if (!base) {
+    throw new Error(`Invalid range "${range}". Use <from>..<to>, e.g. v1.0.0..v1.1.0.`);
+  }
+  return { base, head: head || 'HEAD' };
+}
+
+/**
+ * The release a range describes: the head tag without its "v" prefix, or Unreleased
+ * when the head is not a tag.
+ */
+function releaseName(head: string): string {
+  return refExists(`refs/tags/${head}`) ? head.replace(/^v(?=\d)/, '') : 'Unreleased';
+}
+
+// The analysis purpose, or the commit subject without its Conventional Commits prefix
+function entryText(commit: CommitInfo, result: SummaryResult): string {
+  const text = result.purpose[0]?.trim() || parseCommitHeader(commit.subject)?.subject;
+  return (text || commit.subject).replace(/\s+/g, ' ');
+}
+
+export async function runChangelog(range: string, options: ChangelogOptions = {}): Promise<void> {
+  try {
+    if (!isGitRepo()) {
+      throw new Error('Not a git repository.');
+    }
+
+    const config = await getConfig({
+      provider: options.provider,
+      model: options.model,
+      concurrency: options.concurrency,
+      cache: !options.noCache,
+    });
+
+    const { base, head } = parseRange(range);
+    const commits = getCommitLog(base, head);
+    if (commits.length === 0) {
+      throw new Error(`No commits between ${base} and ${head}.`);
+    }
+
+    const reports = await analyzeCommits(commits, config, options);
+
+    // A changelog with missing commits is worse than none
+    const failed = reports.filter((r) => r.error);
+    if (failed.length > 0) {
+      throw new Error(
+        `${failed.length} of ${reports.length} commits could not be analyzed: ${failed[0].commit.sha.slice(0, 7)} ${failed[0].error}`
+      );
+    }
+
+    const entries: ChangelogEntry[] = [];
+    for (const { commit, result } of reports) {
+      if (!result) continue;
+      const section = changelogSection(result.changeType);
+      if (section) {
+        entries.push({ section, text: entryText(commit, result) });
+      }
+    }
+
+    const release = options.release || releaseName(head);
+    const date = release === 'Unreleased' ? null : getCommitDate(head);
+    const section = formatChangelogSection(release, date, entries);
+
+    if (options.write) {
+      const existing = fs.existsSync(options.write)
+        ? fs.readFileSync(options.write, 'utf-8')
+        : '# Changelog\n';
+      // Unreleased entries join the section that is already there instead of a second one
+      const merged = release === 'Unreleased' ? mergeUnreleasedEntries(existing, entries) : null;
+      fs.writeFileSync(options.write, merged ?? insertChangelogSection(existing, release, section));
+      const colors = await createColors(!options.noColor && config.colors !== false);
+      console.error(
+        colors.success(
+          merged === null
+            ? `Added ${release} to ${options.write}`
+            : `Added ${entries.length} entries to Unreleased in ${options.write}`
+        )
+      );
+    } else {
+      process.stdout.write(section);
+    }
+  } catch (error) {
+    stopSpinner();
+    throw error;
+  }
+}
@@ -0,0 +1,184 @@
+import { spawnSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { DEFAULT_IGNORE_PATTERNS, getConfig, getProviderOptions } from '../config';
+import { getCachedValue, setCachedValue } from '../core/cache';
+import {
+  COMMIT_TYPES,
+  type ConventionalCommit,
+  formatCommitMessage,
+  inferScope,
+  validateCommitMessage,
+} from '../core/conventional';
+import {
+  type ParsedFile,
+  filterIgnoredFiles,
+  parseDiff,
+  stubGeneratedFiles,
+} from '../core/diff-parser';
+import { getGitEditor, getStagedDiff, isGitRepo, readDiffFromFile } from '../core/git';
+import { createProvider, parseJsonObject, toStringArray } from '../providers';
+import { stopSpinner, withSpinner } from '../utils/spinner';
+import { type AnalyzeOptions, condenseDiff } from './analyze';
+
+const COMMIT_PROMPT = `You are a senior engineer writing the git commit message for a staged diff, following the Conventional Commits specification.
+
+Respond ONLY with a JSON object:
+{
+  "type": ${COMMIT_TYPES.map((type) => `"${type}"`).join(' | ')},
+  "subject": "imperative summary in lower case, no trailing period, at most 60 characters",
+  "body": ["what changed and why, one item per logical change; empty for trivial changes"],
+  "breaking": "what breaks for existing users and how to migrate, or null"
+}
+
+Only report a breaking change when the diff removes or changes behavior that existing users of the code depend on. Do not describe the diff line by line.`;
+
+// Commit messages are short; the body is a handful of sentences
+const COMMIT_MAX_TOKENS = 400;
+
+const EDIT_INSTRUCTIONS = `
+# Edit the commit message generated by diff-intent. Lines starting
+# with '#' are ignored, and an empty message aborts.
+`;
+
+export interface CommitMsgOptions
+  extends Pick<AnalyzeOptions, 'provider' | 'model' | 'file' | 'noCache'> {
+  output?: string;
+  edit?: boolean;
+  conventional?: boolean;
+}
+
+function readStagedDiff(file?: string): string {
+  if (file) {
+    return readDiffFromFile(file);
+  }
+  if (!isGitRepo()) {
+    throw new Error('Not a git repository. Use --file to read a diff file.');
+  }
+  return getStagedDiff();
+}
+
+/**
+ * Turn the model response into a commit. The scope is not left to the model: it is
+ * inferred from the changed paths so the same directories always get the same scope.
+ */
+function parseCommit(content: string, files: ParsedFile[]): ConventionalCommit {
+  const obj = parseJsonObject(content);
+  const subject = typeof obj.subject === 'string' ? obj.subject.trim().replace(/\.$/, '') : '';
+  if (typeof obj.type !== 'string' || !subject) {
+    throw new Error('The model response did not contain a commit type and subject.');
+  }
+
+  return {
+    type: obj.type.trim().toLowerCase(),
+    scope: inferScope(files),
+    subject,
+    body: toStringArray(obj.body, 'body', content).filter((item) => item.trim()),
+    breaking: typeof obj.breaking === 'string' && obj.breaking.trim() ? obj.breaking : undefined,
+  };
+}
+
+/**
+ * Open the message in the user's editor, the way `git commit` does, and return the
+ * edited message without comment lines.
+ */
+function editMessage(message: string): string {
+  const filePath = path.join(os.tmpdir(), `diff-intent-COMMIT_EDITMSG-${process.pid}`);
+  fs.writeFileSync(filePath, `${message}${EDIT_INSTRUCTIONS}`);
+
+  try {
+    const editor = getGitEditor();
+    const result = spawnSync(`${editor} "${filePath}"`, { shell: true, stdio: 'inherit' });
+    if (result.status !== 0) {
+      throw new Error(`Editor "${editor}" exited with status ${result.status}.`);
+    }
+
+    const edited = fs
+      .readFileSync(filePath, 'utf-8')
+      .split('\n')
+      .filter((line) => !line.startsWith('#'))
+      .join('\n')
+      .trim();
+    if (!edited) {
+      throw new Error('Aborting: the commit message is empty.');
+    }
+    return `${edited}\n`;
+  } finally {
+    fs.rmSync(filePath, { force: true });
+  }
+}
+
+export async function runCommitMsg(options: CommitMsgOptions = {}): Promise<void> {
+  try {
+    const config = await getConfig({
+      provider: options.provider,
+      model: options.model,
+      cache: !options.noCache,
+    });
+
+    const { diff } = stubGeneratedFiles(
+      filterIgnoredFiles(readStagedDiff(options.file), config.ignore ?? DEFAULT_IGNORE_PATTERNS)
+    );
+    if (!diff.trim()) {
+      throw new Error('No staged changes. Stage your changes with `git add` first.');
+    }
+    const files = parseDiff(diff);
+
+    const provider = createProvider(
+      options.provider || config.provider,
+      options.model || config.model,
+      getProviderOptions(config)
+    );
+
+    const input = await condenseDiff(diff, config, options, provider.getModel());
+
+    const cacheKey = `${COMMIT_PROMPT}\n${input}`;
+    const useCache = !options.noCache && config.cache !== false;
+    let commit = useCache
+      ? getCachedValue<ConventionalCommit>(
+          cacheKey,
+          provider.name,
+          provider.getModel(),
+          config.cacheTTL
+        )
+      : null;
+
+    if (!commit) {
+      const response = await withSpinner(
+        `Writing commit message with ${provider.name} (${provider.getModel()})...`,
+        () =>
+          provider.chat(COMMIT_PROMPT, [{ role: 'user', content: input }], {
+            maxTokens: COMMIT_MAX_TOKENS,
+          }),
+        { successText: 'Commit message ready' }
+      );
+      commit = parseCommit(response.content, files);
+      if (useCache) {
+        setCachedValue(cacheKey, provider.name, provider.getModel(), commit);
+      }
+    }
+
+    let message = formatCommitMessage(commit);
+    if (options.edit) {
+      message = editMessage(message);
+    }
+
+    if (options.conventional) {
+      const problems = validateCommitMessage(message);
+      if (problems.length > 0) {
+        throw new Error(`Not a valid Conventional Commits message:\n  ${problems.join('\n  ')}`);
+      }
+    }
+
+    if (options.output) {
+      fs.writeFileSync(options.output, message);
+      console.error(`Commit message written to ${options.output}`);
+    } else {
+      process.stdout.write(message);
+    }
+  } catch (error) {
+    stopSpinner();
+    throw error;
+  }
+}
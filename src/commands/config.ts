@@ -1,6 +1,12 @@
 import { DEFAULT_CONFIG, loadConfig } from '../config';
 import { clearCache, getCacheStats, pruneExpiredCache } from '../core/cache';
-import { detectProvider, getAvailableProviders } from '../providers';
+import {
+  PROVIDER_CONCURRENCY,
+  PROVIDER_NAMES,
+  detectProvider,
+  getAvailableProviders,
+  resolveLocalConfig,
+} from '../providers';
 import { createColors } from '../utils/colors';
 
 export interface ConfigOptions {
@@ -39,10 +45,30 @@ export async function runConfig(options: ConfigOptions = {}): Promise<void> {
     ['cacheTTL', `${mergedConfig.cacheTTL} hours`],
     ['showCost', mergedConfig.showCost ? 'yes' : 'no'],
     ['colors', mergedConfig.colors ? 'enabled' : 'disabled'],
+    ['requestTimeout', `${mergedConfig.requestTimeout} seconds`],
+    ['maxRetries', String(mergedConfig.maxRetries)],
+    [
+      'concurrency',
+      mergedConfig.concurrency
+        ? String(mergedConfig.concurrency)
+        : colors.dim(`(default for provider: ${PROVIDER_CONCURRENCY[mergedConfig.provider]})`),
+    ],
   ];
 
+  if (mergedConfig.provider === 'local') {
+    configLines.push(['local.baseUrl', resolveLocalConfig(mergedConfig.local).baseUrl]);
+  }
+
+  if (mergedConfig.failOn.length > 0) {
+    configLines.push(['failOn', mergedConfig.failOn.join(', ')]);
+  }
+
+  if (mergedConfig.github.apiUrl) {
+    configLines.push(['github.apiUrl', mergedConfig.github.apiUrl]);
+  }
+
   for (const [key, value] of configLines) {
-    console.log(`  ${colors.bold(key.padEnd(14))} ${value}`);
+    console.log(`  ${colors.bold(key.padEnd(16))} ${value}`);
   }
   console.log('');
 
@@ -51,11 +77,17 @@ export async function runConfig(options: ConfigOptions = {}): Promise<void> {
   const available = getAvailableProviders();
   const detected = detectProvider();
 
-  const providers: ['groq', 'openai', 'anthropic'] = ['groq', 'openai', 'anthropic'];
-  for (const p of providers) {
+  for (const p of PROVIDER_NAMES) {
     const isAvailable = available.includes(p);
     const isDefault = p === detected;
-    const status = isAvailable ? colors.success('✓ API key found') : colors.dim('✗ No API key');
+    const status =
+      p === 'local'
+        ? isAvailable
+          ? colors.success(`✓ ${process.env.LOCAL_LLM_BASE_URL}`)
+          : colors.dim('✗ LOCAL_LLM_BASE_URL not set')
+        : isAvailable
+          ? colors.success('✓ API key found')
+          : colors.dim('✗ No API key');
     const defaultMark = isDefault ? colors.info(' (auto-detected)') : '';
     console.log(`  ${p.padEnd(12)} ${status}${defaultMark}`);
   }
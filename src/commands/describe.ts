@@ -0,0 +1,165 @@
+import * as fs from 'node:fs';
+import { DEFAULT_IGNORE_PATTERNS, getConfig, getProviderOptions } from '../config';
+import { getCachedValue, setCachedValue } from '../core/cache';
+import { filterIgnoredFiles, stubGeneratedFiles } from '../core/diff-parser';
+import {
+  type CommitInfo,
+  getBranchDiff,
+  getCommitLog,
+  getDefaultBranch,
+  getGitRoot,
+  isGitRepo,
+  refExists,
+} from '../core/git';
+import {
+  DEFAULT_PR_TEMPLATE,
+  type PullRequestTemplate,
+  fillTemplate,
+  findPullRequestTemplate,
+  parseTemplate,
+} from '../core/pr-template';
+import { createProvider, parseJsonObject } from '../providers';
+import { stopSpinner, withSpinner } from '../utils/spinner';
+import { type AnalyzeOptions, condenseDiff } from './analyze';
+
+const DESCRIBE_PROMPT = `You are a senior engineer writing the description of a pull request from its diff and commit messages.
+
+You are given the sections of the repository's pull request template with the guidance under each heading. Fill in every section, in order:
+- Follow the guidance, but do not repeat it or its HTML comments.
+- Keep checklist items ("- [ ] ...") and tick them ("- [x] ...") only when the diff or commits show they are done.
+- Write "N/A" for a section that does not apply to this change.
+- Use markdown. Be concrete and concise; reviewers should not need to read the diff to understand the change.
+
+Respond ONLY with a JSON object:
+{
+  "title": "pull request title, at most 72 characters, no trailing period",
+  "sections": ["markdown content of the first section", "content of the second section", ...]
+}`;
+
+// Room for a full description with several sections
+const DESCRIBE_MAX_TOKENS = 1500;
+
+export interface DescribeOptions extends Pick<AnalyzeOptions, 'provider' | 'model' | 'noCache'> {
+  template?: string;
+  json?: boolean;
+}
+
+export interface PullRequestDescription {
+  title: string;
+  body: string;
+}
+
+/**
+ * Split "base..head" or "base...head" into its refs. A single ref is the base and HEAD
+ * the head; without a range, the default branch is the base.
+ */
+function parseRange(range?: string): { base: string; head: string } {
+  if (!range) {
+    const branch = getDefaultBranch();
+    // CI checkouts often only have the remote-tracking branch
+    const base = !refExists(branch) && refExists(`origin/${branch}`) ? `origin/${branch}` : branch;
+    return { base, head: 'HEAD' };
+  }
+
+  const [base, head] = range.split(/\.{2,3}/);
+  return { base: base || getDefaultBranch(), head: head || 'HEAD' };
+}
+
+function formatCommits(commits: CommitInfo[]): string {
+  return commits
+    .map((c) => `- ${c.subject}${c.body ? `\n${c.body.replace(/^/gm, '  ')}` : ''}`)
+    .join('\n');
+}
+
+function loadTemplate(templatePath?: string): PullRequestTemplate {
+  const found = templatePath ?? findPullRequestTemplate(getGitRoot() || process.cwd());
+  return parseTemplate(found ? fs.readFileSync(found, 'utf-8') : DEFAULT_PR_TEMPLATE);
+}
+
+export async function runDescribe(range?: string, options: DescribeOptions = {}): Promise<void> {
+  try {
+    if (!isGitRepo()) {
+      throw new Error('Not a git repository.');
+    }
+
+    const config = await getConfig({
+      provider: options.provider,
+      model: options.model,
+      cache: !options.noCache,
+    });
+
+    const { base, head } = parseRange(range);
+    const { diff } = stubGeneratedFiles(
+      filterIgnoredFiles(getBranchDiff(base, head), config.ignore ?? DEFAULT_IGNORE_PATTERNS)
+    );
+    if (!diff.trim()) {
+      throw new Error(`No changes between ${base} and ${head}.`);
+    }
+    const commits = getCommitLog(base, head);
+    const template = loadTemplate(options.template);
+
+    const provider = createProvider(
+      options.provider || config.provider,
+      options.model || config.model,
+      getProviderOptions(config)
+    );
+
+    const input = `Pull request template sections:
+${JSON.stringify(
+  template.sections.map((s) => ({ heading: s.heading, guidance: s.guidance })),
+  null,
+  2
+)}
+
+Commits (oldest first):
+${formatCommits(commits) || '(none)'}
+
+Diff:
+${await condenseDiff(diff, config, options, provider.getModel())}`;
+
+    const cacheKey = `${DESCRIBE_PROMPT}\n${input}`;
+    const useCache = !options.noCache && config.cache !== false;
+    let description = useCache
+      ? getCachedValue<PullRequestDescription>(
+          cacheKey,
+          provider.name,
+          provider.getModel(),
+          config.cacheTTL
+        )
+      : null;
+
+    if (!description) {
+      const response = await withSpinner(
+        `Describing ${base}..${head} (${commits.length} commits) with ${provider.name} (${provider.getModel()})...`,
+        () =>
+          provider.chat(DESCRIBE_PROMPT, [{ role: 'user', content: input }], {
+            maxTokens: DESCRIBE_MAX_TOKENS,
+          }),
+        { successText: 'Description ready' }
+      );
+
+      const obj = parseJsonObject(response.content);
+      const title = typeof obj.title === 'string' ? obj.title.trim().replace(/\.$/, '') : '';
+      if (!title) {
+        throw new Error('The model response did not contain a pull request title.');
+      }
+      const sections = Array.isArray(obj.sections)
+        ? obj.sections.map((s) => (typeof s === 'string' ? s : ''))
+        : [];
+
+      description = { title, body: fillTemplate(template, sections) };
+      if (useCache) {
+        setCachedValue(cacheKey, provider.name, provider.getModel(), description);
+      }
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(description, null, 2));
+    } else {
+      console.log(`${description.title}\n\n${description.body}`);
+    }
+  } catch (error) {
+    stopSpinner();
+    throw error;
+  }
+}
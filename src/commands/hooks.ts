@@ -0,0 +1,242 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { FAIL_ON_EXIT_CODE, parseFailOn } from '../core/findings';
+import { getGitCommonDir, getGitConfig, getGitRoot, isGitRepo } from '../core/git';
+import { createColors } from '../utils/colors';
+
+export type HookName = 'prepare-commit-msg' | 'pre-push';
+
+export const HOOK_NAMES: HookName[] = ['prepare-commit-msg', 'pre-push'];
+
+// First lines of a hook file written by diff-intent
+const HOOK_MARKER = '# diff-intent hook';
+
+// Delimit the block diff-intent adds to a husky hook file
+const BLOCK_START = '# >>> diff-intent >>>';
+const BLOCK_END = '# <<< diff-intent <<<';
+
+// An existing hook is renamed with this suffix and run before diff-intent's
+const CHAINED_SUFFIX = '.pre-diff-intent';
+
+const DEFAULT_FAIL_ON = 'high';
+
+export interface HooksOptions {
+  hooks?: HookName[];
+  block?: boolean; // pre-push: stop the push instead of warning
+  failOn?: string; // pre-push: risks to warn or block on
+}
+
+const FIND_BINARY = `if command -v diff-intent >/dev/null 2>&1; then
+  diff_intent=diff-intent
+else
+  diff_intent="npx --no-install diff-intent"
+fi`;
+
+// Only plain `git commit` gets a suggestion: not -m, merges, squashes or amends
+const PREPARE_COMMIT_MSG_BODY = `${FIND_BINARY}
+case "$2" in
+  "" | template)
+    if message=$($diff_intent commit-msg 2>/dev/null </dev/null) && [ -n "$message" ]; then
+      { printf '%s\\n' "$message"; cat "$1"; } >"$1.diff-intent" && mv "$1.diff-intent" "$1"
+    fi
+    ;;
+esac`;
+
+// Analyze <remote>/<branch>..HEAD, or against the remote's default branch for a branch
+// that has not been pushed yet. Only risks matching the threshold warn or block; a run that
+// fails for another reason (no API key, network, diff-intent not installed) lets the push go.
+const PRE_PUSH_BODY = (block: boolean, failOn: string) => `${FIND_BINARY}
+remote=\${1:-origin}
+branch=$(git symbolic-ref --quiet --short HEAD 2>/dev/null || true)
+if [ -n "$branch" ] && git rev-parse --verify --quiet "refs/remotes/$remote/$branch" >/dev/null; then
+  base="$remote/$branch"
+else
+  base=$(git symbolic-ref --quiet --short "refs/remotes/$remote/HEAD" 2>/dev/null || true)
+fi
+if [ -n "$base" ] && [ -n "$(git rev-list -n 1 "$base..HEAD" 2>/dev/null)" ]; then
+  status=0
+  $diff_intent "$base..HEAD" --fail-on ${failOn} </dev/null || status=$?
+  if [ "$status" -eq ${FAIL_ON_EXIT_CODE} ]; then
+${
+  block
+    ? `    echo "diff-intent: push blocked. Use git push --no-verify to push anyway." >&2
+    exit 1`
+    : `    echo "diff-intent: review the analysis above before merging." >&2`
+}
+  elif [ "$status" -ne 0 ]; then
+    echo "diff-intent: analysis failed (exit $status), pushing without it." >&2
+  fi
+fi`;
+
+function hookBody(hook: HookName, options: HooksOptions): string {
+  return hook === 'pre-push'
+    ? PRE_PUSH_BODY(!!options.block, options.failOn || DEFAULT_FAIL_ON)
+    : PREPARE_COMMIT_MSG_BODY;
+}
+
+// pre-push receives the pushed refs on stdin, which the chained hook needs too
+const CHAIN = (hook: HookName) =>
+  hook === 'pre-push'
+    ? `refs=$(cat)
+if [ -x "$0${CHAINED_SUFFIX}" ]; then
+  printf '%s\\n' "$refs" | "$0${CHAINED_SUFFIX}" "$@" || exit $?
+fi`
+    : `if [ -x "$0${CHAINED_SUFFIX}" ]; then
+  "$0${CHAINED_SUFFIX}" "$@" || exit $?
+fi`;
+
+const HOOK_TEMPLATE = (hook: HookName, options: HooksOptions) => `#!/bin/sh
+${HOOK_MARKER}: ${hook}
+# Installed by \`diff-intent hooks install\`, removed by \`diff-intent hooks uninstall\`.
+# An earlier hook, if there was one, is kept as ${hook}${CHAINED_SUFFIX} and runs first.
+
+${CHAIN(hook)}
+
+${hookBody(hook, options)}
+`;
+
+const HUSKY_BLOCK = (hook: HookName, options: HooksOptions) =>
+  `${BLOCK_START}\n${hookBody(hook, options)}\n${BLOCK_END}\n`;
+
+interface HooksLocation {
+  dir: string;
+  husky: boolean;
+}
+
+/**
+ * Where hooks go: husky's `.husky` directory when the repository uses husky (v5 and
+ * later), then `core.hooksPath`, then the hooks directory of the git repository.
+ */
+function resolveHooksLocation(): HooksLocation {
+  const root = getGitRoot() || process.cwd();
+  const hooksPath = getGitConfig('core.hooksPath');
+  const configured = hooksPath
+    ? path.resolve(root, hooksPath.replace(/^~(?=$|\/)/, os.homedir()))
+    : null;
+
+  // husky v9 points core.hooksPath at .husky/_, v5-v8 at .husky
+  const huskyDir = configured
+    ? configured.split(path.sep).includes('.husky')
+      ? configured.slice(0, configured.lastIndexOf('.husky') + '.husky'.length)
+      : null
+    : path.join(root, '.husky');
+  if (huskyDir && fs.existsSync(huskyDir)) {
+    return { dir: huskyDir, husky: true };
+  }
+
+  if (configured && fs.existsSync(configured) && !fs.statSync(configured).isDirectory()) {
+    // e.g. core.hooksPath=/dev/null, a common way to turn hooks off
+    throw new Error(
+      `core.hooksPath is ${hooksPath}, so git does not run hooks in this repository.`
+    );
+  }
+
+  return { dir: configured || path.join(getGitCommonDir(), 'hooks'), husky: false };
+}
+
+/**
+ * Remove the block diff-intent added to a husky hook file, keeping the rest of the file.
+ */
+export function removeBlock(content: string): string {
+  const start = content.indexOf(BLOCK_START);
+  const end = content.indexOf(BLOCK_END);
+  if (start === -1 || end === -1) return content;
+  return (
+    content.slice(0, start).replace(/\n+$/, '\n') +
+    content.slice(end + BLOCK_END.length).replace(/^\n/, '')
+  );
+}
+
+function installHook(hook: HookName, location: HooksLocation, options: HooksOptions): string {
+  const hookPath = path.join(location.dir, hook);
+  const existing = fs.existsSync(hookPath) ? fs.readFileSync(hookPath, 'utf-8') : null;
+
+  if (location.husky) {
+    // Add a block to the husky hook file, keeping whatever else it runs
+    const base = existing ? removeBlock(existing) : '#!/usr/bin/env sh\n';
+    fs.writeFileSync(hookPath, `${base.replace(/\n*$/, '\n\n')}${HUSKY_BLOCK(hook, options)}`);
+    fs.chmodSync(hookPath, 0o755);
+    return `${existing ? 'Updated' : 'Created'} ${hookPath}`;
+  }
+
+  let chained = false;
+  if (existing !== null && !existing.includes(HOOK_MARKER)) {
+    if (existing.includes('husky')) {
+      // husky v4 generates its own runner for every hook and finds the hook by file name
+      return `Skipped ${hookPath}: it is managed by husky v4. Add diff-intent to its ${hook} hook in package.json instead`;
+    }
+    fs.renameSync(hookPath, `${hookPath}${CHAINED_SUFFIX}`);
+    chained = true;
+  }
+
+  fs.mkdirSync(location.dir, { recursive: true });
+  fs.writeFileSync(hookPath, HOOK_TEMPLATE(hook, options));
+  fs.chmodSync(hookPath, 0o755);
+  return chained
+    ? `Installed ${hookPath} (the existing hook runs first, as ${hook}${CHAINED_SUFFIX})`
+    : `${existing ? 'Updated' : 'Installed'} ${hookPath}`;
+}
+
+function uninstallHook(hook: HookName, location: HooksLocation): string {
+  const hookPath = path.join(location.dir, hook);
+  if (!fs.existsSync(hookPath)) {
+    return `${hookPath} is not installed`;
+  }
+  const content = fs.readFileSync(hookPath, 'utf-8');
+
+  if (location.husky) {
+    if (!content.includes(BLOCK_START)) {
+      return `${hookPath} has no diff-intent block`;
+    }
+    const rest = removeBlock(content);
+    // Remove the file if diff-intent's block was all it ran
+    if (rest.replace(/^#!.*$/m, '').trim() === '') {
+      fs.rmSync(hookPath);
+      return `Removed ${hookPath}`;
+    }
+    fs.writeFileSync(hookPath, rest);
+    return `Removed the diff-intent block from ${hookPath}`;
+  }
+
+  if (!content.includes(HOOK_MARKER)) {
+    return `${hookPath} was not installed by diff-intent; left untouched`;
+  }
+  fs.rmSync(hookPath);
+  if (fs.existsSync(`${hookPath}${CHAINED_SUFFIX}`)) {
+    fs.renameSync(`${hookPath}${CHAINED_SUFFIX}`, hookPath);
+    return `Removed ${hookPath} and restored the previous hook`;
+  }
+  return `Removed ${hookPath}`;
+}
+
+/**
+ * Install the diff-intent hooks. Returns one message per hook describing what was done.
+ */
+export function installHooks(options: HooksOptions = {}): string[] {
+  const failOn = options.failOn ? parseFailOn(options.failOn).join(',') : undefined;
+  const location = resolveHooksLocation();
+  return (options.hooks ?? HOOK_NAMES).map((hook) =>
+    installHook(hook, location, { ...options, failOn })
+  );
+}
+
+export function uninstallHooks(options: HooksOptions = {}): string[] {
+  const location = resolveHooksLocation();
+  return (options.hooks ?? HOOK_NAMES).map((hook) => uninstallHook(hook, location));
+}
+
+export async function runHooks(action: string, options: HooksOptions = {}): Promise<void> {
+  if (action !== 'install' && action !== 'uninstall') {
+    throw new Error(`Unknown action "${action}". Use install or uninstall.`);
+  }
+  if (!isGitRepo()) {
+    throw new Error('Not a git repository.');
+  }
+
+  const colors = await createColors(true);
+  const messages = action === 'install' ? installHooks(options) : uninstallHooks(options);
+  for (const message of messages) {
+    console.log(colors.success(message));
+  }
+}
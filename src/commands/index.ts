@@ -1,3 +1,8 @@
 export { runAnalyze, AnalyzeOptions } from './analyze';
 export { runInit } from './init';
 export { runConfig, ConfigOptions } from './config';
+export { runPr, PrOptions } from './pr';
+export { runCommitMsg, CommitMsgOptions } from './commit-msg';
+export { runDescribe, DescribeOptions } from './describe';
+export { runChangelog, ChangelogOptions, DEFAULT_CHANGELOG_FILE } from './changelog';
+export { runHooks, HooksOptions, HookName } from './hooks';
@@ -1,10 +1,21 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { getGitRoot, isGitRepo } from '../core/git';
-import { type ProviderName, getAvailableProviders } from '../providers';
+import { STICKY_COMMENT_MARKER } from '../core/github';
+import {
+  LocalProvider,
+  PROVIDER_ENV_VARS,
+  type ProviderName,
+  getAvailableProviders,
+  resolveLocalConfig,
+} from '../providers';
 import { createColors } from '../utils/colors';
+import { type HookName, installHooks } from './hooks';
 
-const GITHUB_WORKFLOW_TEMPLATE = (provider: string, perFile: boolean) => `name: Diff Intent Analysis
+const GITHUB_WORKFLOW_TEMPLATE = (
+  provider: ProviderName,
+  perFile: boolean
+) => `name: Diff Intent Analysis
 
 on:
   pull_request:
@@ -19,24 +30,110 @@ jobs:
     runs-on: ubuntu-latest
     steps:
       - uses: actions/checkout@v4
-        with:
-          fetch-depth: 0
 
-      - name: Analyze PR diff
-        id: analysis
+      - name: Analyze PR and comment
         env:
-          ${provider.toUpperCase()}_API_KEY: \${{ secrets.${provider.toUpperCase()}_API_KEY }}
-        run: |
-          git fetch origin \${{ github.base_ref }} --depth=1
-          git diff origin/\${{ github.base_ref }}...HEAD | npx diff-intent@latest --format github ${perFile ? '--per-file ' : ''}> analysis.md
-
-      - name: Comment on PR
-        uses: marocchino/sticky-pull-request-comment@v2
-        with:
-          header: diff-intent
-          path: analysis.md
+          ${PROVIDER_ENV_VARS[provider]}: \${{ secrets.${PROVIDER_ENV_VARS[provider]} }}
+          GITHUB_TOKEN: \${{ secrets.GITHUB_TOKEN }}
+        run: npx diff-intent@latest pr \${{ github.event.pull_request.number }}${perFile ? ' --per-file' : ''}
 `;
 
+const GITLAB_CI_TEMPLATE = (
+  perFile: boolean
+) => `# Posts the analysis as a note on the merge request and updates that note on later runs.
+# Needs CI/CD variables for your LLM provider and DIFF_INTENT_GITLAB_TOKEN (project access
+# token with the api scope).
+diff-intent:
+  image: node:20
+  rules:
+    - if: $CI_PIPELINE_SOURCE == "merge_request_event"
+  variables:
+    GIT_DEPTH: 0
+    DIFF_INTENT_MARKER: "${STICKY_COMMENT_MARKER}"
+  script:
+    - git fetch origin "$CI_MERGE_REQUEST_TARGET_BRANCH_NAME"
+    - git diff "origin/$CI_MERGE_REQUEST_TARGET_BRANCH_NAME...HEAD" | npx diff-intent@latest --format gitlab ${perFile ? '--per-file ' : ''}> analysis.md
+    - echo "$DIFF_INTENT_MARKER" | cat - analysis.md > note.md
+    - NOTES_URL="$CI_API_V4_URL/projects/$CI_PROJECT_ID/merge_requests/$CI_MERGE_REQUEST_IID/notes"
+    - >
+      NOTE_ID=$(curl --fail --silent --show-error
+      --header "PRIVATE-TOKEN: $DIFF_INTENT_GITLAB_TOKEN"
+      "$NOTES_URL?order_by=created_at&sort=asc&per_page=100"
+      | node -p 'JSON.parse(require("fs").readFileSync(0, "utf8")).find((note) => note.body.includes(process.env.DIFF_INTENT_MARKER))?.id ?? ""')
+    - >
+      curl --fail --silent --show-error
+      --request "$([ -n "$NOTE_ID" ] && echo PUT || echo POST)"
+      --header "PRIVATE-TOKEN: $DIFF_INTENT_GITLAB_TOKEN"
+      --data-urlencode "body@note.md"
+      "$NOTES_URL\${NOTE_ID:+/$NOTE_ID}"
+`;
+
+const BITBUCKET_PIPELINE_STEP = (perFile: boolean) => `      - step:
+          name: Diff Intent Analysis
+          script:
+            - git fetch origin "$BITBUCKET_PR_DESTINATION_BRANCH"
+            - git diff "origin/$BITBUCKET_PR_DESTINATION_BRANCH...HEAD" | npx diff-intent@latest --format bitbucket ${perFile ? '--per-file ' : ''}> analysis.md
+            - export DIFF_INTENT_MARKER='${STICKY_COMMENT_MARKER}'
+            - |
+              node -e 'process.stdout.write(JSON.stringify({ content: { raw: process.env.DIFF_INTENT_MARKER + "\\n" + require("fs").readFileSync("analysis.md", "utf8") } }))' > comment.json
+            - COMMENTS_URL="https://api.bitbucket.org/2.0/repositories/$BITBUCKET_REPO_FULL_NAME/pullrequests/$BITBUCKET_PR_ID/comments"
+            - >
+              COMMENT_ID=$(curl --fail --silent --show-error
+              --header "Authorization: Bearer $BITBUCKET_ACCESS_TOKEN"
+              "$COMMENTS_URL?pagelen=100"
+              | node -p 'JSON.parse(require("fs").readFileSync(0, "utf8")).values.find((comment) => !comment.deleted && comment.content.raw.includes(process.env.DIFF_INTENT_MARKER))?.id ?? ""')
+            - >
+              curl --fail --silent --show-error
+              --request "$([ -n "$COMMENT_ID" ] && echo PUT || echo POST)"
+              --header "Authorization: Bearer $BITBUCKET_ACCESS_TOKEN"
+              --header "Content-Type: application/json"
+              --data @comment.json
+              "$COMMENTS_URL\${COMMENT_ID:+/$COMMENT_ID}"
+`;
+
+const BITBUCKET_PIPELINES_TEMPLATE = (
+  perFile: boolean
+) => `# Posts the analysis as a pull request comment and updates that comment on later runs.
+# Needs repository variables for your LLM provider and BITBUCKET_ACCESS_TOKEN (repository
+# access token with pull request write).
+image: node:20
+
+pipelines:
+  pull-requests:
+    '**':
+${BITBUCKET_PIPELINE_STEP(perFile)}`;
+
+type CiPlatform = 'github' | 'gitlab' | 'bitbucket';
+
+// CI config written by init for each platform, and the secret holding the comment token
+const CI_TARGETS: Record<
+  CiPlatform,
+  {
+    file: string;
+    template: (provider: ProviderName, perFile: boolean) => string;
+    tokenVar?: string;
+    secrets: string;
+  }
+> = {
+  github: {
+    file: path.join('.github', 'workflows', 'diff-intent.yml'),
+    template: GITHUB_WORKFLOW_TEMPLATE,
+    secrets: 'GitHub secret',
+  },
+  gitlab: {
+    file: '.gitlab-ci.yml',
+    template: (_provider, perFile) => GITLAB_CI_TEMPLATE(perFile),
+    tokenVar: 'DIFF_INTENT_GITLAB_TOKEN',
+    secrets: 'CI/CD variable',
+  },
+  bitbucket: {
+    file: 'bitbucket-pipelines.yml',
+    template: (_provider, perFile) => BITBUCKET_PIPELINES_TEMPLATE(perFile),
+    tokenVar: 'BITBUCKET_ACCESS_TOKEN',
+    secrets: 'repository variable',
+  },
+};
+
 const DEFAULT_CONFIG = {
   provider: 'groq',
   outputFormat: 'terminal',
@@ -60,7 +157,8 @@ export async function runInit(): Promise<void> {
     console.log(colors.success(`Found: ${availableProviders.join(', ')}`));
   } else {
     console.log(colors.warning('No API keys found in environment.'));
-    console.log('Set one of: GROQ_API_KEY, OPENAI_API_KEY, or ANTHROPIC_API_KEY\n');
+    console.log('Set one of: GROQ_API_KEY, OPENAI_API_KEY, or ANTHROPIC_API_KEY');
+    console.log('Or point LOCAL_LLM_BASE_URL at a local OpenAI-compatible server\n');
   }
   console.log('');
 
@@ -78,6 +176,10 @@ export async function runInit(): Promise<void> {
       name: `Anthropic (claude-3-5-haiku) ${availableProviders.includes('anthropic') ? colors.success('✓ API key found') : ''}`,
       value: 'anthropic',
     },
+    {
+      name: `Local (Ollama, llama.cpp, vLLM) - code stays on your machine ${availableProviders.includes('local') ? colors.success('✓ server configured') : ''}`,
+      value: 'local',
+    },
   ];
 
   const { provider } = await inquirer.default.prompt([
@@ -90,6 +192,44 @@ export async function runInit(): Promise<void> {
     },
   ]);
 
+  // Local server settings
+  let model: string | undefined;
+  let local: { baseUrl: string } | undefined;
+  if (provider === 'local') {
+    const { baseUrl } = await inquirer.default.prompt([
+      {
+        type: 'input',
+        name: 'baseUrl',
+        message: 'Base URL of the OpenAI-compatible server:',
+        default: resolveLocalConfig().baseUrl,
+      },
+    ]);
+    local = { baseUrl };
+
+    const localProvider = new LocalProvider(undefined, { local });
+    const models = await localProvider.listModels();
+    if (models.length > 0) {
+      ({ model } = await inquirer.default.prompt([
+        {
+          type: 'list',
+          name: 'model',
+          message: 'Model to use:',
+          choices: models,
+        },
+      ]));
+    } else {
+      console.log(colors.warning(`Could not list models from ${baseUrl}.`));
+      ({ model } = await inquirer.default.prompt([
+        {
+          type: 'input',
+          name: 'model',
+          message: 'Model name:',
+          default: localProvider.getModel(),
+        },
+      ]));
+    }
+  }
+
   // Output format
   const { outputFormat } = await inquirer.default.prompt([
     {
@@ -100,6 +240,8 @@ export async function runInit(): Promise<void> {
         { name: 'Terminal (colored, for CLI use)', value: 'terminal' },
         { name: 'Markdown (for documentation)', value: 'markdown' },
         { name: 'GitHub (collapsible sections)', value: 'github' },
+        { name: 'GitLab (merge request notes)', value: 'gitlab' },
+        { name: 'Bitbucket (pull request comments)', value: 'bitbucket' },
         { name: 'JSON (for scripting)', value: 'json' },
       ],
       default: 'terminal',
@@ -125,6 +267,8 @@ export async function runInit(): Promise<void> {
   // Create config
   const config = {
     provider,
+    ...(model ? { model } : {}),
+    ...(local ? { local } : {}),
     outputFormat,
     showCost,
     cache: enableCache,
@@ -146,18 +290,25 @@ export async function runInit(): Promise<void> {
     console.log(colors.success(`\nCreated ${configPath}`));
   }
 
-  // GitHub workflow
+  // CI pipeline for pull/merge request analysis
   if (isGitRepo()) {
-    const { addWorkflow } = await inquirer.default.prompt([
+    const { ciPlatform } = await inquirer.default.prompt([
       {
-        type: 'confirm',
-        name: 'addWorkflow',
-        message: 'Add GitHub Actions workflow for PR analysis?',
-        default: false,
+        type: 'list',
+        name: 'ciPlatform',
+        message: 'Add a CI pipeline for pull request analysis?',
+        choices: [
+          { name: 'No', value: 'none' },
+          { name: 'GitHub Actions workflow', value: 'github' },
+          { name: 'GitLab CI job (.gitlab-ci.yml)', value: 'gitlab' },
+          { name: 'Bitbucket Pipelines step (bitbucket-pipelines.yml)', value: 'bitbucket' },
+        ],
+        default: 'none',
       },
     ]);
 
-    if (addWorkflow) {
+    if (ciPlatform !== 'none') {
+      const target = CI_TARGETS[ciPlatform as CiPlatform];
       const { ciPerFile } = await inquirer.default.prompt([
         {
           type: 'list',
@@ -172,17 +323,62 @@ export async function runInit(): Promise<void> {
       ]);
 
       const gitRoot = getGitRoot() || process.cwd();
-      const workflowDir = path.join(gitRoot, '.github', 'workflows');
-      const workflowPath = path.join(workflowDir, 'diff-intent.yml');
+      const ciPath = path.join(gitRoot, target.file);
 
-      if (!fs.existsSync(workflowDir)) {
-        fs.mkdirSync(workflowDir, { recursive: true });
+      if (ciPlatform !== 'github' && fs.existsSync(ciPath)) {
+        // Never overwrite an existing pipeline; show what to add instead
+        const snippet =
+          ciPlatform === 'gitlab'
+            ? GITLAB_CI_TEMPLATE(ciPerFile)
+            : `pipelines:\n  pull-requests:\n    '**':\n${BITBUCKET_PIPELINE_STEP(ciPerFile)}`;
+        console.log(colors.warning(`\n${target.file} already exists. Add this to it:\n`));
+        console.log(snippet);
+      } else {
+        fs.mkdirSync(path.dirname(ciPath), { recursive: true });
+        fs.writeFileSync(ciPath, target.template(provider, ciPerFile));
+        console.log(colors.success(`Created ${ciPath}`));
       }
 
-      fs.writeFileSync(workflowPath, GITHUB_WORKFLOW_TEMPLATE(provider, ciPerFile));
-      console.log(colors.success(`Created ${workflowPath}`));
-      console.log(colors.warning('\nRemember to add your API key as a GitHub secret:'));
-      console.log(`  ${provider.toUpperCase()}_API_KEY`);
+      if (provider === 'local') {
+        console.log(colors.warning('\nThe pipeline must run where your local server is reachable'));
+        console.log(
+          colors.warning(`(e.g. a self-hosted runner). Add its URL as a ${target.secrets}:`)
+        );
+      } else {
+        console.log(colors.warning(`\nRemember to add your API key as a ${target.secrets}:`));
+      }
+      console.log(`  ${PROVIDER_ENV_VARS[provider as ProviderName]}`);
+      if (target.tokenVar) {
+        console.log(
+          colors.warning(
+            `and a token that can comment on ${ciPlatform === 'gitlab' ? 'merge' : 'pull'} requests:`
+          )
+        );
+        console.log(`  ${target.tokenVar}`);
+      }
+    }
+
+    // Local git hooks
+    const { hooks } = await inquirer.default.prompt([
+      {
+        type: 'checkbox',
+        name: 'hooks',
+        message: 'Install git hooks?',
+        choices: [
+          { name: 'prepare-commit-msg (suggest a commit message)', value: 'prepare-commit-msg' },
+          { name: 'pre-push (warn about high risks before pushing)', value: 'pre-push' },
+        ],
+      },
+    ]);
+
+    if (hooks.length > 0) {
+      try {
+        for (const message of installHooks({ hooks: hooks as HookName[] })) {
+          console.log(colors.success(message));
+        }
+      } catch (error) {
+        console.log(colors.warning(error instanceof Error ? error.message : String(error)));
+      }
     }
 
     // Check .gitignore
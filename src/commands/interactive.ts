@@ -0,0 +1,404 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { type Config, type OutputFormat, getProviderOptions } from '../config';
+import { getCachedValue, setCachedValue } from '../core/cache';
+import {
+  type FollowUpResult,
+  formatMarkdown,
+  formatMarkdownFollowUp,
+  getFollowUpFormatter,
+} from '../output';
+import {
+  type ChatMessage,
+  type LLMProvider,
+  type ProviderName,
+  ResponseParseError,
+  type SummaryResult,
+  createProvider,
+  parseJsonObject,
+  toStringArray,
+} from '../providers';
+import { type Colors, createColors } from '../utils/colors';
+import { withSpinner } from '../utils/spinner';
+import { formatCost, formatTokenCount } from '../utils/tokens';
+
+// Follow-up answers are longer than the initial summary
+const FOLLOW_UP_MAX_TOKENS = 1000;
+
+interface FollowUp {
+  label: string;
+  title: string;
+  prompt: string;
+  // JSON keys in the response mapped to section titles
+  sections: Record<string, string>;
+}
+
+const FOLLOW_UPS: Record<string, FollowUp> = {
+  security: {
+    label: 'Security implications',
+    title: 'Security Analysis',
+    prompt: `Analyze the security implications of this diff. Look for:
+- Potential vulnerabilities (injection, XSS, CSRF, etc.)
+- Authentication/authorization issues
+- Data exposure risks
+- Input validation concerns
+Respond ONLY with a JSON object: { "securityIssues": ["..."], "recommendations": ["..."] }`,
+    sections: { securityIssues: 'Security Issues', recommendations: 'Recommendations' },
+  },
+
+  performance: {
+    label: 'Performance impact',
+    title: 'Performance Analysis',
+    prompt: `Analyze the performance implications of this diff. Look for:
+- Algorithmic complexity changes
+- Memory usage concerns
+- Database query efficiency
+- Caching implications
+Respond ONLY with a JSON object: { "performanceImpact": ["..."], "recommendations": ["..."] }`,
+    sections: { performanceImpact: 'Performance Impact', recommendations: 'Recommendations' },
+  },
+
+  breaking: {
+    label: 'Breaking changes',
+    title: 'Breaking Changes',
+    prompt: `Analyze breaking changes in this diff. Look for:
+- API contract changes
+- Database schema changes
+- Configuration changes
+- Behavioral changes that affect consumers
+Respond ONLY with a JSON object: { "breakingChanges": ["..."], "migrationSteps": ["..."] }`,
+    sections: { breakingChanges: 'Breaking Changes', migrationSteps: 'Migration Steps' },
+  },
+
+  alternative: {
+    label: 'Suggest better approach',
+    title: 'Alternative Approaches',
+    prompt: `Suggest alternative approaches for this change. Consider:
+- Different design patterns
+- More efficient implementations
+- Better abstractions
+- Industry best practices
+Respond ONLY with a JSON object: { "alternatives": ["..."], "tradeoffs": ["..."] }`,
+    sections: { alternatives: 'Alternatives', tradeoffs: 'Tradeoffs' },
+  },
+};
+
+// System prompt for free-form questions; the diff and initial analysis are appended
+const CHAT_PROMPT = `You are a senior engineer helping a developer understand a git diff.
+
+Answer the developer's questions about the diff concisely and concretely. Reference files,
+functions and line numbers where relevant. Answer in plain text or markdown, not JSON.
+If the diff does not contain enough information to answer, say so.`;
+
+interface ChatTurn {
+  question: string;
+  answer: string;
+  // Undefined for answers served from the cache
+  meta?: SummaryResult['meta'];
+}
+
+interface ChatSession {
+  provider: LLMProvider;
+  diff: string;
+  initialResult: SummaryResult;
+  turns: ChatTurn[];
+  totalTokens: number;
+  totalCost: number;
+}
+
+export interface InteractiveOptions {
+  provider?: ProviderName;
+  model?: string;
+  format: OutputFormat;
+  colors: boolean;
+  showCost?: boolean;
+  noCache?: boolean;
+}
+
+/**
+ * Turn a follow-up response into titled sections. Falls back to showing the raw text
+ * when the model did not return the requested JSON.
+ */
+function parseFollowUp(followUp: FollowUp, content: string): FollowUpResult['sections'] {
+  try {
+    const obj = parseJsonObject(content);
+    const sections = Object.entries(followUp.sections)
+      .filter(([key]) => key in obj)
+      .map(([key, title]) => ({ title, items: toStringArray(obj[key], key, content) }));
+    if (sections.length > 0) {
+      return sections;
+    }
+  } catch (error) {
+    if (!(error instanceof ResponseParseError)) throw error;
+  }
+
+  return [{ title: 'Response', items: [content.trim()] }];
+}
+
+async function askFollowUp(
+  provider: LLMProvider,
+  followUp: FollowUp,
+  diff: string,
+  config: Config,
+  useCache: boolean
+): Promise<{ result: FollowUpResult; cached: boolean }> {
+  const cacheKey = `${followUp.prompt}\n${diff}`;
+  if (useCache) {
+    const cached = getCachedValue<FollowUpResult>(
+      cacheKey,
+      provider.name,
+      provider.getModel(),
+      config.cacheTTL
+    );
+    if (cached) {
+      return { result: cached, cached: true };
+    }
+  }
+
+  const response = await withSpinner('Analyzing...', () =>
+    provider.chat(followUp.prompt, [{ role: 'user', content: diff }], {
+      maxTokens: FOLLOW_UP_MAX_TOKENS,
+    })
+  );
+
+  const result: FollowUpResult = {
+    title: followUp.title,
+    sections: parseFollowUp(followUp, response.content),
+    meta: response.meta,
+  };
+
+  if (useCache) {
+    setCachedValue(cacheKey, provider.name, provider.getModel(), result);
+  }
+
+  return { result, cached: false };
+}
+
+function chatSystemPrompt(session: ChatSession): string {
+  const { purpose, changeType, risks, tests } = session.initialResult;
+  return `${CHAT_PROMPT}
+
+The diff:
+<diff>
+${session.diff}
+</diff>
+
+Initial analysis of the diff:
+<analysis>
+${JSON.stringify({ purpose, changeType, risks, tests }, null, 2)}
+</analysis>`;
+}
+
+function recordTurn(session: ChatSession, turn: ChatTurn): void {
+  session.turns.push(turn);
+  if (turn.meta) {
+    session.totalTokens += turn.meta.tokens || 0;
+    session.totalCost += turn.meta.cost || 0;
+  }
+}
+
+function formatUsage(session: ChatSession): string {
+  const turn = session.turns[session.turns.length - 1];
+  const turnUsage = turn?.meta
+    ? `${formatTokenCount(turn.meta.tokens || 0)} tokens, ${formatCost(turn.meta.cost || 0)}`
+    : 'cached';
+  return `Turn ${session.turns.length}: ${turnUsage} · Session: ${formatTokenCount(session.totalTokens)} tokens, ${formatCost(session.totalCost)}`;
+}
+
+async function renderTranscript(session: ChatSession): Promise<string> {
+  const lines: string[] = [];
+
+  lines.push('# diff-intent chat transcript');
+  lines.push('');
+  lines.push(
+    `_${new Date().toISOString()} · ${session.provider.name} (${session.provider.getModel()}) · ${formatTokenCount(session.totalTokens)} tokens, ${formatCost(session.totalCost)}_`
+  );
+  lines.push('');
+  lines.push(await formatMarkdown(session.initialResult));
+  lines.push('');
+  lines.push('## Conversation');
+  lines.push('');
+
+  session.turns.forEach((turn, i) => {
+    lines.push(`### ${i + 1}. ${turn.question}`);
+    lines.push('');
+    lines.push(turn.answer.trim());
+    lines.push('');
+    if (turn.meta) {
+      lines.push(
+        `<sub>${formatTokenCount(turn.meta.tokens || 0)} tokens · ${formatCost(turn.meta.cost || 0)}</sub>`
+      );
+      lines.push('');
+    }
+  });
+
+  lines.push('<details>');
+  lines.push('<summary>Diff</summary>');
+  lines.push('');
+  lines.push('```diff');
+  lines.push(session.diff.trimEnd());
+  lines.push('```');
+  lines.push('');
+  lines.push('</details>');
+
+  return `${lines.join('\n')}\n`;
+}
+
+async function saveTranscript(session: ChatSession, filePath?: string): Promise<string> {
+  const target =
+    filePath || `diff-intent-chat-${new Date().toISOString().replace(/[:.]/g, '-')}.md`;
+  const absolutePath = path.isAbsolute(target) ? target : path.join(process.cwd(), target);
+  fs.writeFileSync(absolutePath, await renderTranscript(session));
+  return absolutePath;
+}
+
+/**
+ * Free-form, multi-turn conversation about the diff. Every question is sent with the
+ * diff, the initial analysis and all earlier questions and answers.
+ */
+async function runChat(session: ChatSession, colors: Colors): Promise<void> {
+  const inquirer = await import('inquirer');
+  const system = chatSystemPrompt(session);
+
+  console.log(colors.dim('Ask anything about the diff. Commands: /save [file], /back'));
+
+  while (true) {
+    const { question } = await inquirer.default.prompt([
+      { type: 'input', name: 'question', message: 'You:' },
+    ]);
+    const text = String(question).trim();
+
+    if (!text || text === '/back') {
+      return;
+    }
+
+    if (text === '/save' || text.startsWith('/save ')) {
+      try {
+        const savedPath = await saveTranscript(session, text.slice(5).trim() || undefined);
+        console.log(colors.success(`Saved transcript to ${savedPath}`));
+      } catch (error) {
+        console.error(colors.error(`Error: ${error instanceof Error ? error.message : error}`));
+      }
+      continue;
+    }
+
+    const history: ChatMessage[] = session.turns.flatMap((turn) => [
+      { role: 'user' as const, content: turn.question },
+      { role: 'assistant' as const, content: turn.answer },
+    ]);
+
+    try {
+      const response = await withSpinner('Thinking...', () =>
+        session.provider.chat(system, [...history, { role: 'user', content: text }], {
+          maxTokens: FOLLOW_UP_MAX_TOKENS,
+        })
+      );
+      recordTurn(session, { question: text, answer: response.content, meta: response.meta });
+
+      console.log('');
+      console.log(response.content.trim());
+      console.log('');
+      console.log(colors.dim(formatUsage(session)));
+    } catch (error) {
+      console.error(colors.error(`Error: ${error instanceof Error ? error.message : error}`));
+    }
+  }
+}
+
+export async function runInteractiveMode(
+  diff: string,
+  initialResult: SummaryResult,
+  config: Config,
+  options: InteractiveOptions
+): Promise<void> {
+  const inquirer = await import('inquirer');
+  const colors = await createColors(options.colors);
+  const formatter = getFollowUpFormatter(options.format);
+  const useCache = !options.noCache && config.cache !== false;
+
+  const providerName = options.provider || config.provider;
+  const provider = createProvider(
+    providerName,
+    options.model || config.model,
+    getProviderOptions(config)
+  );
+  const session: ChatSession = {
+    provider,
+    diff,
+    initialResult,
+    turns: [],
+    totalTokens: 0,
+    totalCost: 0,
+  };
+
+  while (true) {
+    console.log('');
+    const { choice } = await inquirer.default.prompt([
+      {
+        type: 'list',
+        name: 'choice',
+        message: 'What would you like to know more about?',
+        choices: [
+          ...Object.entries(FOLLOW_UPS).map(([value, f]) => ({ name: f.label, value })),
+          { name: 'Ask your own question', value: 'chat' },
+          ...(session.turns.length > 0
+            ? [{ name: 'Save transcript to markdown', value: 'save' }]
+            : []),
+          { name: 'Exit', value: 'exit' },
+        ],
+      },
+    ]);
+
+    if (choice === 'exit') {
+      break;
+    }
+
+    if (choice === 'chat') {
+      await runChat(session, colors);
+      continue;
+    }
+
+    if (choice === 'save') {
+      const { filePath } = await inquirer.default.prompt([
+        {
+          type: 'input',
+          name: 'filePath',
+          message: 'Save transcript to:',
+          default: `diff-intent-chat-${new Date().toISOString().slice(0, 10)}.md`,
+        },
+      ]);
+      try {
+        console.log(
+          colors.success(`Saved transcript to ${await saveTranscript(session, filePath)}`)
+        );
+      } catch (error) {
+        console.error(colors.error(`Error: ${error instanceof Error ? error.message : error}`));
+      }
+      continue;
+    }
+
+    const followUp = FOLLOW_UPS[choice];
+    if (!followUp) continue;
+
+    try {
+      const { result, cached } = await askFollowUp(provider, followUp, diff, config, useCache);
+      console.log('');
+      console.log(
+        await formatter(result, {
+          colors: options.colors,
+          showCost: options.showCost,
+          provider: options.provider || config.provider,
+        })
+      );
+
+      // Canned follow-ups become part of the conversation context for later questions
+      recordTurn(session, {
+        question: followUp.label,
+        answer: await formatMarkdownFollowUp(result),
+        meta: cached ? undefined : result.meta,
+      });
+    } catch (error) {
+      console.error(colors.error(`Error: ${error instanceof Error ? error.message : error}`));
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import { DEFAULT_IGNORE_PATTERNS, getConfig } from '../config';
+import {
+  filterIgnoredFiles,
+  getDiffStats,
+  parseDiff,
+  stubGeneratedFiles,
+} from '../core/diff-parser';
+import { parseFailOn } from '../core/findings';
+import {
+  type ReviewPayload,
+  STICKY_COMMENT_MARKER,
+  createGitHubClient,
+  createReview,
+  getPullRequest,
+  getPullRequestDiff,
+  listReviewComments,
+  resolveGitHubRepo,
+  reviewCommentKey,
+  upsertStickyComment,
+} from '../core/github';
+import {
+  type AggregateResult,
+  buildGitHubReview,
+  buildGitHubReviewAggregate,
+  formatGitHub,
+  formatGitHubAggregate,
+} from '../output';
+import type { SummaryResult } from '../providers';
+import { createColors } from '../utils/colors';
+import { stopSpinner, withSpinner } from '../utils/spinner';
+import {
+  type AnalyzeOptions,
+  analyzeDiff,
+  analyzeFiles,
+  assertFilesAnalyzed,
+  checkRisks,
+  splitFilesToAnalyze,
+} from './analyze';
+
+export interface PrOptions
+  extends Pick<
+    AnalyzeOptions,
+    | 'provider'
+    | 'model'
+    | 'perFile'
+    | 'concurrency'
+    | 'showCost'
+    | 'noCache'
+    | 'noColor'
+    | 'failOn'
+    | 'junit'
+    | 'checkstyle'
+  > {
+  repo?: string;
+  apiUrl?: string;
+  dryRun?: boolean;
+  review?: boolean;
+}
+
+export async function runPr(prNumber: string, options: PrOptions = {}): Promise<void> {
+  const number = Number(prNumber);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`Invalid pull request number "${prNumber}".`);
+  }
+
+  try {
+    const config = await getConfig({
+      provider: options.provider,
+      model: options.model,
+      showCost: options.showCost,
+      cache: !options.noCache,
+      concurrency: options.concurrency,
+      failOn: options.failOn !== undefined ? parseFailOn(options.failOn) : undefined,
+    });
+    const colors = await createColors(!options.noColor && config.colors !== false);
+
+    const client = createGitHubClient({
+      repo: resolveGitHubRepo(options.repo),
+      token: process.env.GITHUB_TOKEN || process.env.GH_TOKEN,
+      apiUrl: options.apiUrl || config.github?.apiUrl || process.env.GITHUB_API_URL,
+    });
+    const repoName = `${client.repo.owner}/${client.repo.repo}`;
+
+    const [pr, rawDiff] = await withSpinner(
+      `Fetching pull request #${number} from ${repoName}...`,
+      () => Promise.all([getPullRequest(client, number), getPullRequestDiff(client, number)]),
+      { successText: `Fetched pull request #${number}` }
+    );
+
+    const filtered = filterIgnoredFiles(rawDiff, config.ignore ?? DEFAULT_IGNORE_PATTERNS);
+    if (!filtered.trim()) {
+      throw new Error(`Pull request #${number} has no diff content to analyze.`);
+    }
+
+    const stats = getDiffStats(parseDiff(filtered));
+    const { diff, generated } = stubGeneratedFiles(filtered);
+    const parsedFiles = parseDiff(diff);
+    console.error(
+      `${colors.bold(`#${pr.number} ${pr.title}`)} ${colors.dim(
+        `(${pr.headRef} → ${pr.baseRef}, ${stats.filesChanged} files, +${stats.additions} -${stats.deletions})`
+      )}`
+    );
+    if (pr.state !== 'open') {
+      console.error(colors.warning(`Pull request #${number} is ${pr.state}.`));
+    }
+
+    const formatOptions = {
+      colors: false,
+      showCost: options.showCost || config.showCost,
+      provider: options.provider || config.provider,
+      files: parsedFiles,
+      generated,
+    };
+
+    // Without --review everything goes into the sticky comment. With it, findings that
+    // point at diff lines become inline comments and the rest stays in the sticky comment.
+    const files = splitFilesToAnalyze(diff, generated);
+    let report: AggregateResult | null = null;
+    let result: SummaryResult;
+    let review: ReviewPayload;
+    if (options.perFile && files.length > 0) {
+      report = await analyzeFiles(diff, files, config, options);
+      result = report.summary;
+      review = options.review
+        ? await buildGitHubReviewAggregate(report, formatOptions)
+        : {
+            event: 'COMMENT',
+            body: await formatGitHubAggregate(report, formatOptions),
+            comments: [],
+          };
+    } else {
+      ({ result } = await analyzeDiff(diff, config, options));
+      review = options.review
+        ? await buildGitHubReview(result, formatOptions)
+        : { event: 'COMMENT', body: await formatGitHub(result, formatOptions), comments: [] };
+    }
+    const comment = `${STICKY_COMMENT_MARKER}\n${review.body}`;
+
+    // A finding on lines that already carry a diff-intent comment from an earlier run is
+    // not posted again
+    let comments = review.comments;
+    if (comments.length > 0) {
+      const posted = new Set((await listReviewComments(client, number)).map(reviewCommentKey));
+      comments = comments.filter((c) => !posted.has(reviewCommentKey(c)));
+      const skipped = review.comments.length - comments.length;
+      if (skipped > 0) {
+        console.error(
+          colors.dim(`Skipping ${skipped} inline comment(s) already on the pull request.`)
+        );
+      }
+    }
+    const inline: ReviewPayload = {
+      commit_id: pr.headSha,
+      event: 'COMMENT',
+      body: `diff-intent left ${comments.length} inline comment(s) on this revision.`,
+      comments,
+    };
+
+    if (options.dryRun) {
+      console.log(comment);
+      if (inline.comments.length > 0) {
+        console.log(JSON.stringify(inline, null, 2));
+      }
+    } else {
+      const { comment: posted, created } = await withSpinner(
+        `Posting comment to ${repoName}#${number}...`,
+        () => upsertStickyComment(client, number, comment),
+        { successText: 'Comment posted' }
+      );
+      console.log(`${created ? 'Created' : 'Updated'} comment: ${posted.url}`);
+
+      if (inline.comments.length > 0) {
+        const posted = await withSpinner(
+          `Posting ${inline.comments.length} inline comment(s) as a review...`,
+          () => createReview(client, number, inline),
+          { successText: 'Review posted' }
+        );
+        console.log(`Posted review: ${posted.url}`);
+      }
+    }
+
+    checkRisks(report ?? result, parsedFiles, config, options);
+    if (report) {
+      assertFilesAnalyzed(report);
+    }
+  } catch (error) {
+    stopSpinner();
+    throw error;
+  }
+}
@@ -1,9 +1,11 @@
 export { loadConfig, getConfig, clearConfigCache } from './loader';
 export {
   Config,
+  GitHubConfig,
   OutputFormat,
   DEFAULT_CONFIG,
   DEFAULT_IGNORE_PATTERNS,
   validateConfig,
   mergeConfig,
+  getProviderOptions,
 } from './schema';
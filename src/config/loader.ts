@@ -25,18 +25,26 @@ export async function loadConfig(): Promise<{ config: Config; filePath: string |
     ],
   });
 
+  let result: Awaited<ReturnType<typeof explorer.search>> = null;
   try {
-    const result = await explorer.search();
-    if (result) {
-      cachedConfig = validateConfig(result.config);
-      configFilePath = result.filepath;
-      return { config: cachedConfig, filePath: configFilePath };
-    }
+    result = await explorer.search();
   } catch (error) {
     // Config loading failed, use defaults
     console.error('Warning: Failed to load config file:', error);
   }
 
+  if (result) {
+    try {
+      cachedConfig = validateConfig(result.config);
+    } catch (error) {
+      throw new Error(
+        `${result.filepath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    configFilePath = result.filepath;
+    return { config: cachedConfig, filePath: configFilePath };
+  }
+
   cachedConfig = {};
   configFilePath = null;
   return { config: cachedConfig, filePath: configFilePath };
@@ -1,18 +1,40 @@
-import type { ProviderName } from '../providers';
-
-export type OutputFormat = 'markdown' | 'json' | 'github' | 'terminal';
+import { parseFailOn } from '../core/findings';
+import type { LocalProviderConfig, ProviderName, ProviderOptions } from '../providers';
+
+export type OutputFormat =
+  | 'markdown'
+  | 'json'
+  | 'github'
+  | 'github-review'
+  | 'gitlab'
+  | 'bitbucket'
+  | 'sarif'
+  | 'terminal';
+
+// Settings for the `pr` command
+export interface GitHubConfig {
+  apiUrl?: string; // REST API base URL, e.g. https://github.example.com/api/v3 for GHE
+}
 
 export interface Config {
   provider?: ProviderName;
   model?: string;
-  maxTokens?: number;
+  maxTokens?: number; // output tokens per analysis response
   outputFormat?: OutputFormat;
   cache?: boolean;
   cacheTTL?: number; // in hours
   showCost?: boolean;
   customPrompt?: string;
   colors?: boolean;
-  ignore?: string[]; // file patterns to ignore (e.g., lock files)
+  ignore?: string[]; // gitignore-style patterns for files to leave out (e.g., lock files)
+  local?: LocalProviderConfig; // OpenAI-compatible local server (Ollama, llama.cpp, vLLM)
+  chunkTokens?: number; // max tokens per chunk for large diffs (0 = derive from model limit)
+  contextTokens?: number; // budget for surrounding code sent along with the diff (0 = off)
+  requestTimeout?: number; // in seconds, per API request attempt
+  maxRetries?: number; // retries for rate limits, overloaded servers and network errors
+  concurrency?: number; // parallel requests in per-file mode (0 = provider default)
+  failOn?: string[]; // severities or categories of risks that make the command exit non-zero
+  github?: GitHubConfig;
 }
 
 export const DEFAULT_IGNORE_PATTERNS = [
@@ -29,7 +51,7 @@ export const DEFAULT_IGNORE_PATTERNS = [
 export const DEFAULT_CONFIG: Required<Config> = {
   provider: 'groq' as ProviderName,
   model: '',
-  maxTokens: 500,
+  maxTokens: 2000,
   outputFormat: 'terminal',
   cache: true,
   cacheTTL: 24,
@@ -37,6 +59,14 @@ export const DEFAULT_CONFIG: Required<Config> = {
   customPrompt: '',
   colors: true,
   ignore: DEFAULT_IGNORE_PATTERNS,
+  local: {},
+  chunkTokens: 0,
+  contextTokens: 0,
+  requestTimeout: 60,
+  maxRetries: 3,
+  concurrency: 0,
+  failOn: [],
+  github: {},
 };
 
 export function validateConfig(config: unknown): Config {
@@ -44,8 +74,17 @@ export function validateConfig(config: unknown): Config {
     return {};
   }
 
-  const validProviders: ProviderName[] = ['groq', 'openai', 'anthropic'];
-  const validFormats: OutputFormat[] = ['markdown', 'json', 'github', 'terminal'];
+  const validProviders: ProviderName[] = ['groq', 'openai', 'anthropic', 'local'];
+  const validFormats: OutputFormat[] = [
+    'markdown',
+    'json',
+    'github',
+    'github-review',
+    'gitlab',
+    'bitbucket',
+    'sarif',
+    'terminal',
+  ];
 
   const c = config as Record<string, unknown>;
   const validated: Config = {};
@@ -90,6 +129,56 @@ export function validateConfig(config: unknown): Config {
     validated.ignore = c.ignore;
   }
 
+  if (typeof c.chunkTokens === 'number' && c.chunkTokens > 0) {
+    validated.chunkTokens = c.chunkTokens;
+  }
+
+  if (typeof c.contextTokens === 'number' && c.contextTokens >= 0) {
+    validated.contextTokens = c.contextTokens;
+  }
+
+  if (typeof c.requestTimeout === 'number' && c.requestTimeout > 0) {
+    validated.requestTimeout = c.requestTimeout;
+  }
+
+  if (typeof c.maxRetries === 'number' && Number.isInteger(c.maxRetries) && c.maxRetries >= 0) {
+    validated.maxRetries = c.maxRetries;
+  }
+
+  if (typeof c.concurrency === 'number' && Number.isInteger(c.concurrency) && c.concurrency > 0) {
+    validated.concurrency = c.concurrency;
+  }
+
+  // Rejected here rather than dropped, so a mistyped threshold fails before any analysis runs
+  if (
+    typeof c.failOn === 'string' ||
+    (Array.isArray(c.failOn) && c.failOn.every((v) => typeof v === 'string'))
+  ) {
+    validated.failOn = parseFailOn(c.failOn);
+  }
+
+  if (typeof c.local === 'object' && c.local !== null) {
+    const local = c.local as Record<string, unknown>;
+    validated.local = {};
+    if (typeof local.baseUrl === 'string') {
+      validated.local.baseUrl = local.baseUrl;
+    }
+    if (typeof local.apiKey === 'string') {
+      validated.local.apiKey = local.apiKey;
+    }
+    if (Array.isArray(local.models) && local.models.every((m) => typeof m === 'string')) {
+      validated.local.models = local.models;
+    }
+  }
+
+  if (typeof c.github === 'object' && c.github !== null) {
+    const github = c.github as Record<string, unknown>;
+    validated.github = {};
+    if (typeof github.apiUrl === 'string') {
+      validated.github.apiUrl = github.apiUrl;
+    }
+  }
+
   return validated;
 }
 
@@ -100,3 +189,14 @@ export function mergeConfig(fileConfig: Config, cliOptions: Partial<Config>): Co
     ...Object.fromEntries(Object.entries(cliOptions).filter(([, v]) => v !== undefined)),
   };
 }
+
+export function getProviderOptions(config: Config): ProviderOptions {
+  return {
+    local: config.local,
+    maxTokens: config.maxTokens,
+    http: {
+      timeoutMs: config.requestTimeout !== undefined ? config.requestTimeout * 1000 : undefined,
+      maxRetries: config.maxRetries,
+    },
+  };
+}
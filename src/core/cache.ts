@@ -3,12 +3,13 @@ import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import type { SummaryResult } from '../providers';
+import { normalizeFindings } from './findings';
 
 const CACHE_DIR = path.join(os.homedir(), '.cache', 'diff-intent');
 const DEFAULT_TTL_HOURS = 24;
 
 interface CacheEntry {
-  result: SummaryResult;
+  result: unknown;
   timestamp: number;
   provider: string;
   model: string;
@@ -29,14 +30,18 @@ function getCachePath(hash: string): string {
   return path.join(CACHE_DIR, `${hash}.json`);
 }
 
-export function getCached(
-  diff: string,
+/**
+ * Read any cached value keyed by content, provider and model. Returns null when the
+ * entry is missing, unreadable or older than the TTL.
+ */
+export function getCachedValue<T>(
+  key: string,
   provider: string,
   model: string,
   ttlHours: number = DEFAULT_TTL_HOURS
-): SummaryResult | null {
+): T | null {
   try {
-    const hash = hashDiff(diff, provider, model);
+    const hash = hashDiff(key, provider, model);
     const cachePath = getCachePath(hash);
 
     if (!fs.existsSync(cachePath)) {
@@ -54,26 +59,21 @@ export function getCached(
       return null;
     }
 
-    return entry.result;
+    return entry.result as T;
   } catch {
     return null;
   }
 }
 
-export function setCache(
-  diff: string,
-  provider: string,
-  model: string,
-  result: SummaryResult
-): void {
+export function setCachedValue<T>(key: string, provider: string, model: string, value: T): void {
   try {
     ensureCacheDir();
 
-    const hash = hashDiff(diff, provider, model);
+    const hash = hashDiff(key, provider, model);
     const cachePath = getCachePath(hash);
 
     const entry: CacheEntry = {
-      result,
+      result: value,
       timestamp: Date.now(),
       provider,
       model,
@@ -83,6 +83,34 @@ export function setCache(
   } catch {}
 }
 
+export function getCached(
+  diff: string,
+  provider: string,
+  model: string,
+  ttlHours: number = DEFAULT_TTL_HOURS
+): SummaryResult | null {
+  const result = getCachedValue<SummaryResult>(diff, provider, model, ttlHours);
+  if (!result) {
+    return null;
+  }
+
+  // Older entries stored risks and tests as plain strings
+  return {
+    ...result,
+    risks: normalizeFindings(result.risks),
+    tests: normalizeFindings(result.tests),
+  };
+}
+
+export function setCache(
+  diff: string,
+  provider: string,
+  model: string,
+  result: SummaryResult
+): void {
+  setCachedValue(diff, provider, model, result);
+}
+
 export function clearCache(): number {
   try {
     if (!fs.existsSync(CACHE_DIR)) {
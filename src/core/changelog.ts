@@ -0,0 +1,152 @@
+// Keep a Changelog sections, in the order they appear in a release
+export const CHANGELOG_SECTIONS = ['Added', 'Changed', 'Removed', 'Fixed', 'Security'] as const;
+
+export type ChangelogSection = (typeof CHANGELOG_SECTIONS)[number];
+
+// changeType labels in order of precedence. Labels mapped to null are left out of the
+// changelog: documentation and test changes are not notable for users.
+const SECTION_BY_CHANGE_TYPE: [string, ChangelogSection | null][] = [
+  ['security', 'Security'],
+  ['removal', 'Removed'],
+  ['bugfix', 'Fixed'],
+  ['feature', 'Added'],
+  ['refactor', 'Changed'],
+  ['config', 'Changed'],
+  ['docs', null],
+  ['test', null],
+];
+
+export interface ChangelogEntry {
+  section: ChangelogSection;
+  text: string;
+}
+
+/**
+ * Pick the changelog section for an analysis from its changeType labels. Unknown labels
+ * go to Changed; returns null for changes that do not belong in a changelog.
+ */
+export function changelogSection(changeType: string[]): ChangelogSection | null {
+  const labels = changeType.map((item) => item.toLowerCase());
+  for (const [label, section] of SECTION_BY_CHANGE_TYPE) {
+    if (labels.some((item) => item === label || item.startsWith(`${label}:`))) {
+      return section;
+    }
+  }
+  return 'Changed';
+}
+
+/**
+ * Render a release section: `## [version] - date` and a `###` subsection per group of
+ * entries. The Unreleased section has no date.
+ */
+export function formatChangelogSection(
+  version: string,
+  date: string | null,
+  entries: ChangelogEntry[]
+): string {
+  const lines = [`## [${version}]${date ? ` - ${date}` : ''}`, ''];
+
+  for (const section of CHANGELOG_SECTIONS) {
+    const items = entries.filter((e) => e.section === section);
+    if (items.length === 0) continue;
+    lines.push(`### ${section}`, '');
+    for (const item of items) {
+      lines.push(`- ${item.text}`);
+    }
+    lines.push('');
+  }
+
+  if (entries.length === 0) {
+    lines.push('No notable changes.', '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Insert a release section into a changelog: below the Unreleased section and above the
+ * latest release, or at the end when the file has no release sections yet.
+ */
+export function insertChangelogSection(content: string, version: string, section: string): string {
+  const lines = content.split('\n');
+  const headings = lines
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => /^## \[/.test(line));
+
+  if (headings.some(({ line }) => line.startsWith(`## [${version}]`))) {
+    throw new Error(`The changelog already has a section for ${version}.`);
+  }
+
+  const target = headings.find(({ line }) => !line.startsWith('## [Unreleased]'));
+  if (!target) {
+    return `${content.replace(/\n*$/, '\n\n')}${section.replace(/\n*$/, '\n')}`;
+  }
+
+  return [
+    ...lines.slice(0, target.index),
+    ...section.replace(/\n*$/, '\n').split('\n'),
+    ...lines.slice(target.index),
+  ].join('\n');
+}
+
+/**
+ * Add entries to the Unreleased section of a changelog, under its existing `###`
+ * subsections or new ones in Keep a Changelog order. Returns null when the changelog has no
+ * Unreleased section.
+ */
+export function mergeUnreleasedEntries(content: string, entries: ChangelogEntry[]): string | null {
+  const lines = content.split('\n');
+  const start = lines.findIndex((line) => line.startsWith('## [Unreleased]'));
+  if (start === -1) return null;
+
+  const nextHeading = (from: number, heading: RegExp): number => {
+    let index = from + 1;
+    while (index < lines.length && !heading.test(lines[index])) index++;
+    return index;
+  };
+  // Index after the last non-blank line of the block that starts at a heading
+  const blockEnd = (from: number, heading: RegExp): number => {
+    let end = nextHeading(from, heading);
+    while (end > from + 1 && lines[end - 1].trim() === '') end--;
+    return end;
+  };
+
+  if (entries.length > 0) {
+    const placeholder = lines.findIndex(
+      (line, index) =>
+        index > start && index < nextHeading(start, /^## /) && line.trim() === 'No notable changes.'
+    );
+    if (placeholder !== -1) {
+      lines.splice(placeholder, lines[placeholder + 1]?.trim() === '' ? 2 : 1);
+    }
+  }
+
+  CHANGELOG_SECTIONS.forEach((section, order) => {
+    const items = entries.filter((e) => e.section === section).map((e) => `- ${e.text}`);
+    if (items.length === 0) return;
+
+    const releaseEnd = nextHeading(start, /^## /);
+    const subsection = (name: string) =>
+      lines.findIndex(
+        (line, index) => index > start && index < releaseEnd && line.trim() === `### ${name}`
+      );
+
+    const heading = subsection(section);
+    if (heading !== -1) {
+      const end = blockEnd(heading, /^#{2,3} /);
+      lines.splice(end, 0, ...(end === heading + 1 ? ['', ...items] : items));
+      return;
+    }
+
+    const later = CHANGELOG_SECTIONS.slice(order + 1)
+      .map(subsection)
+      .filter((index) => index !== -1);
+    if (later.length > 0) {
+      lines.splice(Math.min(...later), 0, `### ${section}`, '', ...items, '');
+    } else {
+      lines.splice(blockEnd(start, /^## /), 0, '', `### ${section}`, '', ...items);
+    }
+  });
+
+  return lines.join('\n');
+}
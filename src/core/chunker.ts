@@ -0,0 +1,142 @@
+import { countTokens } from '../utils/tokens';
+import { splitDiffByFile } from './diff-parser';
+
+interface FileSection {
+  header: string[];
+  hunks: string[][];
+}
+
+function splitFileSections(fileDiff: string): FileSection {
+  const lines = fileDiff.split('\n');
+  const header: string[] = [];
+  const hunks: string[][] = [];
+
+  for (const line of lines) {
+    if (line.startsWith('@@')) {
+      hunks.push([line]);
+    } else if (hunks.length > 0) {
+      hunks[hunks.length - 1].push(line);
+    } else {
+      header.push(line);
+    }
+  }
+
+  return { header, hunks };
+}
+
+/**
+ * Split a hunk that alone exceeds the budget into line-based slices. Each slice
+ * repeats the hunk header so the model still knows where it is in the file.
+ */
+function splitHunk(hunk: string[], maxTokens: number, headerTokens: number): string[][] {
+  const [hunkHeader, ...body] = hunk;
+  const pieces: string[][] = [];
+  let current: string[] = [hunkHeader];
+  let currentTokens = headerTokens + countTokens(hunkHeader);
+
+  for (const line of body) {
+    const lineTokens = countTokens(line) + 1;
+    if (current.length > 1 && currentTokens + lineTokens > maxTokens) {
+      pieces.push(current);
+      current = [`${hunkHeader} (continued)`];
+      currentTokens = headerTokens + countTokens(current[0]);
+    }
+    current.push(line);
+    currentTokens += lineTokens;
+  }
+
+  pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Break a single file diff into pieces that each fit the budget, splitting on hunk
+ * boundaries first and on line boundaries only when a hunk is too large by itself.
+ * Every piece keeps the file header (diff --git, ---, +++).
+ */
+function splitFileDiff(fileDiff: string, maxTokens: number): string[] {
+  const { header, hunks } = splitFileSections(fileDiff);
+  const headerText = header.join('\n');
+  const headerTokens = countTokens(headerText);
+
+  if (hunks.length === 0) {
+    return [fileDiff];
+  }
+
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let currentTokens = headerTokens;
+
+  const flush = () => {
+    if (current.length > 0) {
+      pieces.push([headerText, ...current].join('\n'));
+      current = [];
+      currentTokens = headerTokens;
+    }
+  };
+
+  for (const hunk of hunks) {
+    const hunkText = hunk.join('\n');
+    const hunkTokens = countTokens(hunkText);
+
+    if (headerTokens + hunkTokens > maxTokens) {
+      flush();
+      for (const slice of splitHunk(hunk, maxTokens, headerTokens)) {
+        pieces.push([headerText, ...slice].join('\n'));
+      }
+      continue;
+    }
+
+    if (currentTokens + hunkTokens > maxTokens) {
+      flush();
+    }
+    current.push(hunkText);
+    currentTokens += hunkTokens;
+  }
+
+  flush();
+  return pieces;
+}
+
+/**
+ * Pack a diff into token-budgeted batches for map-reduce analysis.
+ *
+ * Whole files are packed together while they fit; files larger than the budget are
+ * split by hunk (and oversized hunks by line). Batches preserve the original file order.
+ */
+export function chunkDiff(diff: string, maxTokens: number): string[] {
+  if (countTokens(diff) <= maxTokens) {
+    return [diff];
+  }
+
+  const batches: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      batches.push(current.join('\n'));
+      current = [];
+      currentTokens = 0;
+    }
+  };
+
+  for (const fileDiff of splitDiffByFile(diff)) {
+    const fileTokens = countTokens(fileDiff);
+
+    if (fileTokens > maxTokens) {
+      flush();
+      batches.push(...splitFileDiff(fileDiff, maxTokens));
+      continue;
+    }
+
+    if (currentTokens + fileTokens > maxTokens) {
+      flush();
+    }
+    current.push(fileDiff);
+    currentTokens += fileTokens;
+  }
+
+  flush();
+  return batches;
+}
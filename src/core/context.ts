@@ -0,0 +1,276 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { countTokens } from '../utils/tokens';
+import type { ParsedFile, ParsedHunk } from './diff-parser';
+import { getGitRoot, readBlob } from './git';
+
+// Marks the context section so the model does not mistake it for part of the change
+const CONTEXT_HEADER = `## Context (not part of the diff)
+Code around the change, read from the full files. Use it to understand the change; do not
+report risks or tests for it.`;
+
+// Most called functions per file whose definitions are looked up
+const MAX_DEFINITIONS_PER_FILE = 10;
+
+// Words followed by "(" that do not name a function
+const KEYWORDS = new Set([
+  'if',
+  'else',
+  'for',
+  'foreach',
+  'while',
+  'do',
+  'switch',
+  'case',
+  'catch',
+  'try',
+  'with',
+  'return',
+  'throw',
+  'new',
+  'typeof',
+  'sizeof',
+  'await',
+  'yield',
+  'super',
+  'elif',
+  'except',
+  'match',
+  'when',
+  'using',
+  'lock',
+  'synchronized',
+  'function',
+]);
+
+// Declarations by keyword: functions, classes and their kin across common languages. Go
+// methods have a receiver before the name.
+const DECLARATION =
+  /^\s*(?:@[\w.]+(?:\([^)]*\))?\s+)?(?:(?:export|default|public|private|protected|internal|static|abstract|final|async|override|pub(?:\([\w:]+\))?|unsafe|extern|inline|virtual|declare)\s+)*(?:function\*?\s*([\w$]*)\s*\(|(?:class|interface|enum|struct|trait|impl|def|fn|func|fun|module|namespace|object|record)\s+(?:\([^)]*\)\s*)?([\w$]+))/;
+
+// Functions assigned to a name: `const f = (a) => {`, `obj.f = function () {`
+const ASSIGNED_FUNCTION =
+  /^\s*(?:(?:export|const|let|var|static|public|private|protected|readonly|async)\s+)*(?:[\w$]+\.)*([\w$]+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|(?:\([^)]*\)|[\w$]+)\s*(?::[^=]+)?=>)/;
+
+// Methods and C-style functions: `public int size() {`, `render(props) {`, or a signature
+// whose parameters continue on the next lines
+const SIGNATURE =
+  /^\s*(?:[\w$<>[\],.?*&:]+\s+)*([\w$]+)\s*\((?:[^()]*\)\s*(?::\s*[^{;=]+|throws\s+[^{;]+)?\s*\{|\s*)$/;
+
+interface LineRange {
+  start: number; // 0-based, inclusive
+  end: number;
+}
+
+interface ContextBlock extends LineRange {
+  path: string;
+  label: string;
+  lines: string[];
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * The name a line declares when it starts a function, class or similar scope: "" for an
+ * anonymous one, null when the line does not start a scope.
+ */
+function declaredName(line: string): string | null {
+  const declaration = DECLARATION.exec(line);
+  if (declaration) {
+    return declaration[1] ?? declaration[2];
+  }
+  const assigned = ASSIGNED_FUNCTION.exec(line);
+  if (assigned) {
+    return assigned[1];
+  }
+  const signature = SIGNATURE.exec(line);
+  return signature && !KEYWORDS.has(signature[1]) ? signature[1] : null;
+}
+
+// Last line of the scope that starts at `start`: everything indented deeper, and the
+// closing bracket or `end` at its own indentation
+function scopeEnd(lines: string[], start: number): number {
+  const base = indentOf(lines[start]);
+  let end = start;
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+    if (indentOf(line) > base) {
+      end = i;
+      continue;
+    }
+    if (/^\s*[)\]}]/.test(line)) {
+      end = i;
+      // ") {" closes a multi-line signature and opens the body
+      if (/[{([]\s*$/.test(line)) continue;
+    } else if (/^\s*end\b/.test(line)) {
+      end = i;
+    }
+    break;
+  }
+  return end;
+}
+
+/**
+ * The innermost function, class or similar scope around a line, found by walking up to
+ * less indented lines until one declares a scope. Returns null at the top level.
+ */
+export function findEnclosingScope(lines: string[], target: number): LineRange | null {
+  let first = Math.min(target, lines.length - 1);
+  while (first < lines.length && !lines[first]?.trim()) first++;
+  if (first >= lines.length) return null;
+
+  let indent = indentOf(lines[first]);
+  for (let i = first; i >= 0; i--) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+    if (i !== first && (indentOf(line) >= indent || /^\s*[)\]]/.test(line))) continue;
+
+    if (declaredName(line) !== null) {
+      const end = scopeEnd(lines, i);
+      return end >= target ? { start: i, end } : null;
+    }
+    indent = Math.min(indent, indentOf(line));
+    if (indent === 0) break;
+  }
+  return null;
+}
+
+// The scope that declares `name`, if the file has one
+function findDefinition(lines: string[], name: string): LineRange | null {
+  const start = lines.findIndex((line) => declaredName(line) === name);
+  return start === -1 ? null : { start, end: scopeEnd(lines, start) };
+}
+
+// A file's full contents before or after the change. Trusted only when every hunk line
+// matches, so a stale working tree or a diff from elsewhere adds no wrong context.
+function readFileSide(file: ParsedFile, side: 'old' | 'new', root: string): string[] | null {
+  const hash = side === 'old' ? file.oldHash : file.newHash;
+  let content = hash ? readBlob(hash) : null;
+  if (content === null && side === 'new' && !file.isDeleted) {
+    try {
+      content = fs.readFileSync(path.join(root, file.newPath), 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+  if (content === null) return null;
+
+  const lines = content.split('\n');
+  const matches = file.hunks.every((hunk) =>
+    hunk.lines.every((line) => {
+      const lineNumber = side === 'old' ? line.oldLineNumber : line.newLineNumber;
+      return lineNumber === undefined || lines[lineNumber - 1] === line.content;
+    })
+  );
+  return matches ? lines : null;
+}
+
+// First changed line of a hunk on each side, 0-based. A deletion's position on the new side
+// is the line after the last one kept.
+function firstChange(hunk: ParsedHunk): { old: number | null; new: number | null } {
+  let newLine = hunk.newStart;
+  for (const line of hunk.lines) {
+    if (line.type === 'addition' && line.newLineNumber !== undefined) {
+      return { old: null, new: line.newLineNumber - 1 };
+    }
+    if (line.type === 'deletion' && line.oldLineNumber !== undefined) {
+      return { old: line.oldLineNumber - 1, new: newLine - 1 };
+    }
+    if (line.newLineNumber !== undefined) newLine = line.newLineNumber + 1;
+  }
+  return { old: null, new: null };
+}
+
+function formatBlock(block: ContextBlock): string {
+  return `--- ${block.path}:${block.start + 1}-${block.end + 1} (${block.label})\n${block.lines
+    .slice(block.start, block.end + 1)
+    .join('\n')}`;
+}
+
+/**
+ * Context for a diff: the enclosing function or class of each hunk, read from the full file
+ * after the change (and before it, when the change removed or rewrote the scope), then the
+ * definitions of functions the added lines call. Blocks are added until `budget` tokens are
+ * used. Returns an empty string when there is nothing to add.
+ */
+export function buildDiffContext(files: ParsedFile[], budget: number): string {
+  const root = getGitRoot() ?? process.cwd();
+  const blocks: ContextBlock[] = [];
+  let used = countTokens(CONTEXT_HEADER);
+
+  const add = (block: ContextBlock): void => {
+    const covered = blocks.some(
+      (b) =>
+        b.path === block.path &&
+        b.lines === block.lines &&
+        b.start <= block.start &&
+        b.end >= block.end
+    );
+    if (covered) return;
+    const tokens = countTokens(formatBlock(block));
+    if (used + tokens > budget) return;
+    blocks.push(block);
+    used += tokens;
+  };
+
+  const sides = files
+    .filter((file) => !file.isBinary && file.hunks.length > 0)
+    .map((file) => ({
+      file,
+      old: file.isNew ? null : readFileSide(file, 'old', root),
+      new: file.isDeleted ? null : readFileSide(file, 'new', root),
+    }));
+
+  for (const { file, old: oldLines, new: newLines } of sides) {
+    for (const hunk of file.hunks) {
+      const change = firstChange(hunk);
+      const after =
+        newLines && change.new !== null ? findEnclosingScope(newLines, change.new) : null;
+      const before =
+        oldLines && change.old !== null ? findEnclosingScope(oldLines, change.old) : null;
+
+      if (newLines && after) {
+        add({ path: file.newPath, label: 'enclosing scope', lines: newLines, ...after });
+      }
+      // The scope as it was, when its declaration changed or it is gone
+      if (oldLines && before && (!after || oldLines[before.start] !== newLines?.[after.start])) {
+        add({
+          path: file.oldPath,
+          label: 'enclosing scope before the change',
+          lines: oldLines,
+          ...before,
+        });
+      }
+    }
+  }
+
+  for (const { file, new: newLines } of sides) {
+    if (!newLines) continue;
+    const added = file.hunks.flatMap((hunk) =>
+      hunk.lines.filter((line) => line.type === 'addition').map((line) => line.content)
+    );
+    const called = new Set<string>();
+    for (const line of added) {
+      for (const match of line.matchAll(/([A-Za-z_$][\w$]*)\s*\(/g)) {
+        if (!KEYWORDS.has(match[1]) && declaredName(line) !== match[1]) called.add(match[1]);
+      }
+    }
+
+    for (const name of [...called].slice(0, MAX_DEFINITIONS_PER_FILE)) {
+      const definition = findDefinition(newLines, name);
+      if (definition) {
+        add({ path: file.newPath, label: `definition of ${name}`, lines: newLines, ...definition });
+      }
+    }
+  }
+
+  if (blocks.length === 0) {
+    return '';
+  }
+
+  blocks.sort((a, b) => a.path.localeCompare(b.path) || a.start - b.start);
+  return [CONTEXT_HEADER, ...blocks.map(formatBlock)].join('\n\n');
+}
@@ -0,0 +1,130 @@
+import type { ParsedFile } from './diff-parser';
+
+// Types accepted by --conventional (the Angular convention used by commitlint)
+export const COMMIT_TYPES = [
+  'feat',
+  'fix',
+  'docs',
+  'style',
+  'refactor',
+  'perf',
+  'test',
+  'build',
+  'ci',
+  'chore',
+  'revert',
+];
+
+// Directories that say nothing about which part of a project changed
+const GENERIC_DIRS = ['src', 'lib', 'app', 'apps', 'packages', 'libs', 'source', 'pkg'];
+
+const BODY_WIDTH = 72;
+
+export interface ConventionalCommit {
+  type: string;
+  scope?: string;
+  subject: string;
+  body: string[];
+  breaking?: string; // description for the BREAKING CHANGE footer
+}
+
+function scopeOf(filePath: string): string | null {
+  const dirs = filePath.split('/').slice(0, -1);
+  return dirs.find((dir) => !GENERIC_DIRS.includes(dir)) ?? null;
+}
+
+/**
+ * Infer a scope from the changed paths: the first directory below generic roots such as
+ * `src/` or `packages/`, when every changed file shares it. `src/output/a.ts` and
+ * `src/output/b.ts` give `output`; changes spread across directories give no scope.
+ */
+export function inferScope(files: ParsedFile[]): string | undefined {
+  const scopes = new Set(files.map((f) => scopeOf(f.isDeleted ? f.oldPath : f.newPath)));
+  const [scope] = scopes;
+  return scopes.size === 1 && scope ? scope : undefined;
+}
+
+function wrap(text: string, width: number, indent = ''): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > width) {
+      lines.push(line);
+      line = indent + word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+export function formatCommitHeader(commit: ConventionalCommit): string {
+  const scope = commit.scope ? `(${commit.scope})` : '';
+  return `${commit.type}${scope}${commit.breaking ? '!' : ''}: ${commit.subject}`;
+}
+
+/**
+ * Render a commit as `type(scope)!: subject`, a body wrapped at 72 columns (a paragraph
+ * for a single item, a bullet list otherwise) and a `BREAKING CHANGE:` footer.
+ */
+export function formatCommitMessage(commit: ConventionalCommit): string {
+  const blocks = [formatCommitHeader(commit)];
+
+  if (commit.body.length === 1) {
+    blocks.push(wrap(commit.body[0], BODY_WIDTH).join('\n'));
+  } else if (commit.body.length > 1) {
+    blocks.push(
+      commit.body.map((item) => wrap(`- ${item}`, BODY_WIDTH, '  ').join('\n')).join('\n')
+    );
+  }
+
+  if (commit.breaking) {
+    blocks.push(wrap(`BREAKING CHANGE: ${commit.breaking}`, BODY_WIDTH).join('\n'));
+  }
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+export interface CommitHeader {
+  type: string;
+  scope?: string;
+  breaking: boolean;
+  subject: string;
+}
+
+/**
+ * Parse the first line of a commit message as a Conventional Commits header. Returns
+ * null when it does not have the `type(scope)!: subject` shape.
+ */
+export function parseCommitHeader(header: string): CommitHeader | null {
+  const match = /^(\w+)(?:\(([^()]+)\))?(!)?: (.+)$/.exec(header.trim());
+  if (!match) return null;
+  return {
+    type: match[1].toLowerCase(),
+    scope: match[2],
+    breaking: match[3] === '!',
+    subject: match[4].trim(),
+  };
+}
+
+/**
+ * Check a commit message against Conventional Commits with the allowed types. Returns
+ * the problems found; an empty list means the message is valid.
+ */
+export function validateCommitMessage(message: string, types: string[] = COMMIT_TYPES): string[] {
+  const [header, separator] = message.split('\n');
+  const parsed = parseCommitHeader(header);
+  if (!parsed) {
+    return [`"${header}" is not a "type(scope): subject" header.`];
+  }
+
+  const problems: string[] = [];
+  if (!types.includes(parsed.type)) {
+    problems.push(`Type "${parsed.type}" is not one of: ${types.join(', ')}.`);
+  }
+  if (separator !== undefined && separator.trim() !== '') {
+    problems.push('The header must be followed by a blank line.');
+  }
+  return problems;
+}
@@ -1,3 +1,12 @@
+import {
+  GENERATED_ATTRIBUTES,
+  type GeneratedFile,
+  detectGeneratedFile,
+  formatGeneratedStub,
+} from './generated';
+import { getGitAttributes } from './git';
+import { type ExcludedFile, compileIgnoreRules, findIgnoreRule, readIgnoreFiles } from './ignore';
+
 export interface ParsedFile {
   oldPath: string;
   newPath: string;
@@ -6,6 +15,12 @@ export interface ParsedFile {
   isNew: boolean;
   isDeleted: boolean;
   isRenamed: boolean;
+  isCopied: boolean;
+  similarity?: number; // percentage from "similarity index", for renames and copies
+  oldMode?: string; // file modes such as "100644" or "100755", when the diff has them
+  newMode?: string;
+  oldHash?: string; // blob hashes from the "index" line, unset for a side that does not exist
+  newHash?: string;
 }
 
 export interface ParsedHunk {
@@ -21,36 +36,165 @@ export interface ParsedLine {
   content: string;
   oldLineNumber?: number;
   newLineNumber?: number;
+  noNewline?: boolean; // followed by "\ No newline at end of file"
 }
 
-export function splitDiffByFile(diff: string): string[] {
+// First line of a file in git's own diff formats: regular, and combined for merges
+const GIT_FILE_START = /^diff --(?:git|cc|combined) /;
+
+// First line of a patch in a `git format-patch` mbox
+const MBOX_FROM = /^From [0-9a-f]{40} /;
+
+// Hunk header; combined diffs have one "-" range per parent and one "@" more per parent
+const HUNK_HEADER = /^(@@+) -(\d+)(?:,(\d+))?(?: -\d+(?:,\d+)?)* \+(\d+)(?:,(\d+))? @@+/;
+
+interface FileBlock {
+  lines: string[];
+  // Index of the file's first line; earlier lines are the text before the file, such as
+  // the commit message of a patch. -1 when the text has no recognizable file.
+  start: number;
+}
+
+interface HunkCounts {
+  columns: number; // prefix characters per line: 1, or the number of parents
+  oldRemaining: number; // lines left from the (first) old side
+  newRemaining: number;
+}
+
+function parseHunkHeader(line: string): HunkCounts | null {
+  const match = line.match(HUNK_HEADER);
+  if (!match) return null;
+  return {
+    columns: match[1].length - 1,
+    oldRemaining: Number.parseInt(match[3] ?? '1', 10),
+    newRemaining: Number.parseInt(match[5] ?? '1', 10),
+  };
+}
+
+/**
+ * Classify a hunk line by its prefix characters, one per parent in a combined diff. A
+ * line without its leading space (as some editors save empty context lines) is context.
+ * Returns null for lines that are not hunk lines.
+ */
+function hunkLineType(line: string, columns: number): ParsedLine['type'] | null {
+  if (line === '') return 'context';
+  const prefix = line.slice(0, columns);
+  if (prefix.length < columns || /[^ +-]/.test(prefix)) return null;
+  if (prefix.includes('-')) return 'deletion';
+  if (prefix.includes('+')) return 'addition';
+  return 'context';
+}
+
+// Whether a hunk line is on the old side; in a combined diff, that is the first parent,
+// which has a removed line marked "-" and a kept line not marked "+" in its column
+function isOnOldSide(line: string, type: ParsedLine['type']): boolean {
+  return type === 'deletion' ? line[0] === '-' : line[0] !== '+';
+}
+
+// Count a hunk line against the line counts of its hunk header
+function countHunkLine(counts: HunkCounts, line: string, type: ParsedLine['type']): void {
+  if (isOnOldSide(line, type)) counts.oldRemaining--;
+  if (type !== 'deletion') counts.newRemaining--;
+}
+
+// A `--- <path>` line followed by `+++ <path>`: the header of a plain unified diff
+function isUnifiedHeader(lines: string[], i: number): boolean {
+  return lines[i].startsWith('--- ') && (lines[i + 1] ?? '').startsWith('+++ ');
+}
+
+/**
+ * Split a diff into files. Besides git diffs, this reads combined merge diffs
+ * (`diff --cc`), plain unified diffs from `diff -u` or `svn diff`, and `git format-patch`
+ * series, whose commit messages are kept with the first file of their patch. Hunks are
+ * read by their line counts, so their content is never taken for the start of a file.
+ */
+function splitFiles(diff: string): FileBlock[] {
   const lines = diff.split('\n');
-  const chunks: string[] = [];
-  let current: string[] = [];
-
-  for (const line of lines) {
-    if (line.startsWith('diff --git ')) {
-      if (current.length > 0) {
-        chunks.push(current.join('\n'));
-        current = [];
+  const blocks: FileBlock[] = [];
+  let pending: string[] = []; // text that belongs to the next file
+  let current: FileBlock | null = null;
+  let counts: HunkCounts | null = null;
+  let inHeader = false; // between the first line of a file and its first hunk
+  let inMessage = false; // in the commit message of a patch, before its first file
+  let inSignature = false; // in the "-- " signature that ends a patch
+  let isMbox = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Inside a hunk, its line counts decide what belongs to it
+    if (current && counts && (counts.oldRemaining > 0 || counts.newRemaining > 0)) {
+      const type = hunkLineType(line, counts.columns);
+      if (type) {
+        countHunkLine(counts, line, type);
+        current.lines.push(line);
+        continue;
       }
     }
-    current.push(line);
+
+    if (MBOX_FROM.test(line)) {
+      isMbox = true;
+      inMessage = true;
+      inSignature = false;
+      current = null;
+      pending.push(line);
+      continue;
+    }
+    if (isMbox && !inMessage && line === '-- ') {
+      // git's signature line and version end each patch
+      inSignature = true;
+      current = null;
+      continue;
+    }
+
+    const startsFile =
+      GIT_FILE_START.test(line) ||
+      (!inHeader && isUnifiedHeader(lines, i)) ||
+      // svn diff starts a file with "Index: <path>", GNU diff -r with its command line
+      (!inHeader &&
+        !inMessage &&
+        (line.startsWith('Index: ') ||
+          (line.startsWith('diff ') && isUnifiedHeader(lines, i + 1))));
+
+    if (startsFile) {
+      current = { lines: pending, start: pending.length };
+      blocks.push(current);
+      pending = [];
+      counts = null;
+      inHeader = true;
+      inMessage = false;
+      inSignature = false;
+    } else if (inSignature) {
+      continue;
+    } else if (current && HUNK_HEADER.test(line)) {
+      counts = parseHunkHeader(line);
+      inHeader = false;
+    }
+
+    if (current) {
+      current.lines.push(line);
+    } else {
+      pending.push(line);
+    }
   }
 
-  if (current.length > 0) {
-    chunks.push(current.join('\n'));
+  if (blocks.length === 0) {
+    return [{ lines: pending, start: -1 }];
   }
+  // Text after the last file, such as the message of a patch without changes
+  blocks[blocks.length - 1].lines.push(...pending);
+  return blocks;
+}
 
-  return chunks;
+export function splitDiffByFile(diff: string): string[] {
+  return splitFiles(diff).map((block) => block.lines.join('\n'));
 }
 
 export function parseDiff(diff: string): ParsedFile[] {
   const files: ParsedFile[] = [];
-  const fileDiffs = splitDiffByFile(diff);
 
-  for (const fileDiff of fileDiffs) {
-    const file = parseFileDiff(fileDiff);
+  for (const block of splitFiles(diff)) {
+    const file = parseFileBlock(block);
     if (file) {
       files.push(file);
     }
@@ -59,59 +203,355 @@ export function parseDiff(diff: string): ParsedFile[] {
   return files;
 }
 
-function parseFileDiff(fileDiff: string): ParsedFile | null {
-  const lines = fileDiff.split('\n');
-  if (lines.length === 0) return null;
+// Escapes git uses in quoted paths, besides octal bytes
+const ESCAPES: Record<string, number> = {
+  a: 0x07,
+  b: 0x08,
+  t: 0x09,
+  n: 0x0a,
+  v: 0x0b,
+  f: 0x0c,
+  r: 0x0d,
+  '"': 0x22,
+  '\\': 0x5c,
+};
 
-  const diffLine = lines[0];
-  const match = diffLine.match(/^diff --git a\/(.+) b\/(.+)$/);
-  if (!match) return null;
+/**
+ * Read a C-style quoted path, as git writes paths with special or non-ASCII characters,
+ * starting at the opening quote. Octal escapes are UTF-8 bytes. Returns the path and the
+ * index after the closing quote, or null when the quote is not closed.
+ */
+function readQuoted(text: string, start: number): { path: string; end: number } | null {
+  const bytes: number[] = [];
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      return { path: Buffer.from(bytes).toString('utf-8'), end: i + 1 };
+    }
+    if (char !== '\\') {
+      bytes.push(...Buffer.from(char, 'utf-8'));
+      continue;
+    }
+    const next = text[++i];
+    if (/[0-7]/.test(next)) {
+      bytes.push(Number.parseInt(text.slice(i, i + 3), 8));
+      i += 2;
+    } else {
+      bytes.push(ESCAPES[next] ?? next.charCodeAt(0));
+    }
+  }
+  return null;
+}
+
+// A path in a header line: quoted, or everything up to a tab (GNU diff puts the timestamp
+// there, and git a lone tab after paths with spaces)
+function parsePath(text: string): string {
+  if (text.startsWith('"')) {
+    const quoted = readQuoted(text, 0);
+    if (quoted) return quoted.path;
+  }
+  const tab = text.indexOf('\t');
+  return tab === -1 ? text : text.slice(0, tab);
+}
+
+interface HeaderPaths {
+  oldPath: string;
+  newPath: string;
+  // Prefixes of the "---" and "+++" paths: "a/" and "b/" by default, empty for --no-prefix
+  oldPrefix: string;
+  newPrefix: string;
+}
 
-  const oldPath = match[1];
-  const newPath = match[2];
+function stripPrefix(name: string): { prefix: string; path: string } {
+  const slash = name.indexOf('/');
+  return slash === -1
+    ? { prefix: '', path: name }
+    : { prefix: name.slice(0, slash + 1), path: name.slice(slash + 1) };
+}
 
-  const file: ParsedFile = {
+function toHeaderPaths(oldName: string, newName: string): HeaderPaths {
+  if (oldName === newName) {
+    // --no-prefix, or a prefix-less path on both sides
+    return { oldPath: oldName, newPath: newName, oldPrefix: '', newPrefix: '' };
+  }
+  const oldParts = stripPrefix(oldName);
+  const newParts = stripPrefix(newName);
+  return {
+    oldPath: oldParts.path,
+    newPath: newParts.path,
+    oldPrefix: oldParts.prefix,
+    newPrefix: newParts.prefix,
+  };
+}
+
+/**
+ * Read both paths from a `diff --git <old> <new>` line. Unquoted paths may contain spaces,
+ * so the line is split where both sides name the same file, which holds for everything
+ * but renames and copies; those have exact paths in their extended headers.
+ */
+function parseGitHeader(line: string): HeaderPaths | null {
+  const rest = line.slice('diff --git '.length);
+
+  if (rest.startsWith('"')) {
+    const first = readQuoted(rest, 0);
+    if (!first || rest[first.end] !== ' ') return null;
+    return toHeaderPaths(first.path, parsePath(rest.slice(first.end + 1)));
+  }
+  if (rest.endsWith('"')) {
+    const start = rest.lastIndexOf(' "');
+    if (start === -1) return null;
+    return toHeaderPaths(rest.slice(0, start), parsePath(rest.slice(start + 1)));
+  }
+
+  const splits: [string, string][] = [];
+  for (let i = rest.indexOf(' '); i !== -1; i = rest.indexOf(' ', i + 1)) {
+    splits.push([rest.slice(0, i), rest.slice(i + 1)]);
+  }
+  if (splits.length === 0) return null;
+
+  const same =
+    splits.find(([oldName, newName]) => oldName === newName) ||
+    splits.find(([oldName, newName]) => stripPrefix(oldName).path === stripPrefix(newName).path);
+  if (same) {
+    return toHeaderPaths(same[0], same[1]);
+  }
+
+  // A rename with spaces in its paths: assume the default prefixes
+  const [oldName, newName] = splits.find(([, newName]) => newName.startsWith('b/')) || splits[0];
+  return toHeaderPaths(oldName, newName);
+}
+
+function newFile(oldPath: string, newPath: string): ParsedFile {
+  return {
     oldPath,
     newPath,
     hunks: [],
     isBinary: false,
     isNew: false,
     isDeleted: false,
-    isRenamed: oldPath !== newPath,
+    isRenamed: false,
+    isCopied: false,
   };
+}
+
+function parseFileBlock(block: FileBlock): ParsedFile | null {
+  if (block.start === -1) return null;
+  const lines = block.lines.slice(block.start);
+
+  if (lines[0].startsWith('diff --git ')) {
+    return parseGitFile(lines);
+  }
+  if (GIT_FILE_START.test(lines[0])) {
+    return parseCombinedFile(lines);
+  }
+  return parseUnifiedFile(lines);
+}
+
+function parseFileDiff(fileDiff: string): ParsedFile | null {
+  const block = splitFiles(fileDiff)[0];
+  return block ? parseFileBlock(block) : null;
+}
 
-  for (const line of lines) {
-    if (line.startsWith('Binary files')) {
+// Index of the first hunk header, or the number of lines when there is none
+function findFirstHunk(lines: string[]): number {
+  const index = lines.findIndex((line) => HUNK_HEADER.test(line));
+  return index === -1 ? lines.length : index;
+}
+
+function parseGitFile(lines: string[]): ParsedFile | null {
+  const header = parseGitHeader(lines[0]);
+  if (!header) return null;
+
+  const file = newFile(header.oldPath, header.newPath);
+  const hunkStart = findFirstHunk(lines);
+
+  // Extended header lines, up to the first hunk
+  for (let i = 1; i < hunkStart; i++) {
+    const line = lines[i];
+    const value = (prefix: string) => parsePath(line.slice(prefix.length));
+
+    if (line.startsWith('old mode ')) {
+      file.oldMode = line.slice('old mode '.length).trim();
+    } else if (line.startsWith('new mode ')) {
+      file.newMode = line.slice('new mode '.length).trim();
+    } else if (line.startsWith('new file mode ')) {
+      file.isNew = true;
+      file.newMode = line.slice('new file mode '.length).trim();
+    } else if (line.startsWith('deleted file mode ')) {
+      file.isDeleted = true;
+      file.oldMode = line.slice('deleted file mode '.length).trim();
+    } else if (line.startsWith('index ')) {
+      const [hashes, mode] = line.slice('index '.length).split(' ');
+      const [oldHash, newHash] = hashes.split('..');
+      if (!/^0+$/.test(oldHash)) file.oldHash = oldHash;
+      if (newHash && !/^0+$/.test(newHash)) file.newHash = newHash;
+      // "index <old>..<new> <mode>" carries the mode when it did not change
+      if (mode && !file.oldMode && !file.newMode) {
+        file.oldMode = mode;
+        file.newMode = mode;
+      }
+    } else if (line.startsWith('similarity index ')) {
+      file.similarity = Number.parseInt(line.slice('similarity index '.length), 10);
+    } else if (line.startsWith('rename from ')) {
+      file.isRenamed = true;
+      file.oldPath = value('rename from ');
+    } else if (line.startsWith('rename to ')) {
+      file.isRenamed = true;
+      file.newPath = value('rename to ');
+    } else if (line.startsWith('copy from ')) {
+      file.isCopied = true;
+      file.oldPath = value('copy from ');
+    } else if (line.startsWith('copy to ')) {
+      file.isCopied = true;
+      file.newPath = value('copy to ');
+    } else if (line.startsWith('Binary files ') || line.startsWith('GIT binary patch')) {
       file.isBinary = true;
       return file;
+    } else if (line.startsWith('--- ') && !file.isRenamed && !file.isCopied) {
+      const path = value('--- ');
+      if (path !== '/dev/null') {
+        file.oldPath = path.startsWith(header.oldPrefix)
+          ? path.slice(header.oldPrefix.length)
+          : path;
+      }
+    } else if (line.startsWith('+++ ') && !file.isRenamed && !file.isCopied) {
+      const path = value('+++ ');
+      if (path !== '/dev/null') {
+        file.newPath = path.startsWith(header.newPrefix)
+          ? path.slice(header.newPrefix.length)
+          : path;
+      }
     }
-    if (line.startsWith('new file mode')) {
+  }
+
+  // Hand-written diffs may rename a file without the extended headers
+  if (!file.isCopied && file.oldPath !== file.newPath) {
+    file.isRenamed = true;
+  }
+
+  file.hunks = parseHunks(lines.slice(hunkStart));
+  return file;
+}
+
+/**
+ * A file of a combined diff, as `git show` and `git diff` print merge commits. The old
+ * side of line numbers and modes is the first parent.
+ */
+function parseCombinedFile(lines: string[]): ParsedFile {
+  const path = parsePath(lines[0].replace(GIT_FILE_START, ''));
+  const file = newFile(path, path);
+  const hunkStart = findFirstHunk(lines);
+
+  for (let i = 1; i < hunkStart; i++) {
+    const line = lines[i];
+    if (line.startsWith('new file mode ')) {
       file.isNew = true;
-    }
-    if (line.startsWith('deleted file mode')) {
+      file.newMode = line.slice('new file mode '.length).trim();
+    } else if (line.startsWith('deleted file mode ')) {
       file.isDeleted = true;
+      file.oldMode = line.slice('deleted file mode '.length).split(',')[0].trim();
+    } else if (line.startsWith('mode ')) {
+      // "mode <parent modes, comma-separated>..<new mode>"
+      const [parents, mode] = line.slice('mode '.length).split('..');
+      file.oldMode = parents.split(',')[0];
+      file.newMode = mode?.trim();
+    } else if (line.startsWith('Binary files ')) {
+      file.isBinary = true;
+      return file;
     }
   }
 
+  file.hunks = parseHunks(lines.slice(hunkStart));
+  return file;
+}
+
+// Strip git's default "a/" and "b/" prefixes from a path in a plain unified diff
+function stripDefaultPrefix(path: string): string {
+  return /^[ab]\//.test(path) ? path.slice(2) : path;
+}
+
+/**
+ * A file of a plain unified diff, from `diff -u`, `svn diff` or other tools. The path is
+ * the one both sides share once their first directory (like "a/" and "b/", or the two
+ * directories compared with `diff -r`) is removed, or else the new side's path.
+ */
+function parseUnifiedFile(lines: string[]): ParsedFile | null {
+  let indexPath: string | undefined;
+  let oldName: string | undefined;
+  let newName: string | undefined;
+  const hunkStart = findFirstHunk(lines);
+
+  for (let i = 0; i < hunkStart; i++) {
+    const line = lines[i];
+    if (line.startsWith('Index: ')) {
+      indexPath = line.slice('Index: '.length).trim();
+    } else if (line.startsWith('--- ') && oldName === undefined) {
+      oldName = parsePath(line.slice(4));
+    } else if (line.startsWith('+++ ') && newName === undefined) {
+      newName = parsePath(line.slice(4));
+    } else if (line.startsWith('Binary files ') || line.startsWith('Cannot display: ')) {
+      if (indexPath) {
+        const file = newFile(indexPath, indexPath);
+        file.isBinary = true;
+        return file;
+      }
+    }
+  }
+  if (oldName === undefined || newName === undefined) return null;
+
+  let path: string;
+  if (indexPath) {
+    path = indexPath;
+  } else if (oldName === '/dev/null') {
+    path = stripDefaultPrefix(newName);
+  } else if (newName === '/dev/null') {
+    path = stripDefaultPrefix(oldName);
+  } else {
+    const oldParts = stripPrefix(oldName);
+    const newParts = stripPrefix(newName);
+    path = oldParts.prefix && oldParts.path === newParts.path ? newParts.path : newName;
+  }
+
+  const file = newFile(path, path);
+  file.hunks = parseHunks(lines.slice(hunkStart));
+
+  // diff -N compares a missing file as empty instead of naming /dev/null
+  const [hunk] = file.hunks;
+  file.isNew = oldName === '/dev/null' || (hunk?.oldStart === 0 && hunk.oldCount === 0);
+  file.isDeleted = newName === '/dev/null' || (hunk?.newStart === 0 && hunk.newCount === 0);
+  return file;
+}
+
+/**
+ * Parse hunks, using the line counts in each hunk header to tell where it ends, so that
+ * removed lines starting with "--" are not mistaken for file headers. Hand-edited diffs
+ * with wrong counts or without the space on empty context lines are read leniently.
+ */
+function parseHunks(lines: string[]): ParsedHunk[] {
+  const hunks: ParsedHunk[] = [];
   let currentHunk: ParsedHunk | null = null;
+  let counts: HunkCounts = { columns: 1, oldRemaining: 0, newRemaining: 0 };
+  let lastLine: ParsedLine | null = null;
   let oldLineNum = 0;
   let newLineNum = 0;
 
-  for (const line of lines) {
-    const hunkMatch = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
-    if (hunkMatch) {
-      if (currentHunk) {
-        file.hunks.push(currentHunk);
-      }
+  // Blank lines at the end are the diff's trailing newline, not empty context lines
+  let end = lines.length;
+  while (end > 0 && lines[end - 1] === '') end--;
 
-      oldLineNum = Number.parseInt(hunkMatch[1], 10);
-      newLineNum = Number.parseInt(hunkMatch[3], 10);
+  for (let i = 0; i < end; i++) {
+    const line = lines[i];
+    const hunkMatch = line.match(HUNK_HEADER);
+    if (hunkMatch) {
+      counts = parseHunkHeader(line) as HunkCounts;
+      oldLineNum = Number.parseInt(hunkMatch[2], 10);
+      newLineNum = Number.parseInt(hunkMatch[4], 10);
 
       currentHunk = {
         oldStart: oldLineNum,
-        oldCount: Number.parseInt(hunkMatch[2] || '1', 10),
+        oldCount: counts.oldRemaining,
         newStart: newLineNum,
-        newCount: Number.parseInt(hunkMatch[4] || '1', 10),
+        newCount: counts.newRemaining,
         lines: [
           {
             type: 'header',
@@ -119,46 +559,38 @@ function parseFileDiff(fileDiff: string): ParsedFile | null {
           },
         ],
       };
+      hunks.push(currentHunk);
+      lastLine = null;
       continue;
     }
 
     if (!currentHunk) continue;
 
-    if (line.startsWith(' ')) {
-      currentHunk.lines.push({
-        type: 'context',
-        content: line.slice(1),
-        oldLineNumber: oldLineNum++,
-        newLineNumber: newLineNum++,
-      });
-    } else if (line.startsWith('+') && !line.startsWith('+++')) {
-      currentHunk.lines.push({
-        type: 'addition',
-        content: line.slice(1),
-        newLineNumber: newLineNum++,
-      });
-    } else if (line.startsWith('-') && !line.startsWith('---')) {
-      currentHunk.lines.push({
-        type: 'deletion',
-        content: line.slice(1),
-        oldLineNumber: oldLineNum++,
-      });
+    if (line.startsWith('\\')) {
+      if (lastLine) lastLine.noNewline = true;
+      continue;
     }
-  }
 
-  if (currentHunk) {
-    file.hunks.push(currentHunk);
+    const inCounts = counts.oldRemaining > 0 || counts.newRemaining > 0;
+    if (!inCounts && (line === '' || isUnifiedHeader(lines, i))) {
+      continue;
+    }
+
+    const type = hunkLineType(line, counts.columns);
+    if (!type) continue;
+    countHunkLine(counts, line, type);
+
+    lastLine = { type, content: line.slice(counts.columns) };
+    if (isOnOldSide(line, type)) lastLine.oldLineNumber = oldLineNum++;
+    if (type !== 'deletion') lastLine.newLineNumber = newLineNum++;
+    currentHunk.lines.push(lastLine);
   }
 
-  return file;
+  return hunks;
 }
 
 export function getFileNameFromDiff(fileDiff: string): string {
-  const match = fileDiff.match(/^diff --git a\/(.+) b\/(.+)$/m);
-  if (match) {
-    return match[2];
-  }
-  return 'unknown';
+  return parseFileDiff(fileDiff)?.newPath ?? 'unknown';
 }
 
 export function getDiffStats(files: ParsedFile[]): {
@@ -185,24 +617,86 @@ export function getDiffStats(files: ParsedFile[]): {
   };
 }
 
-export function filterIgnoredFiles(diff: string, ignorePatterns: string[]): string {
-  if (!ignorePatterns || ignorePatterns.length === 0) {
+/**
+ * Drop the files matched by gitignore-style patterns: `ignorePatterns` first, then the
+ * .diffintentignore files at the git root and in the changed directories. `onExclude` is
+ * called with each dropped file and the pattern that excluded it.
+ */
+export function filterIgnoredFiles(
+  diff: string,
+  ignorePatterns: string[],
+  onExclude?: (file: ExcludedFile) => void
+): string {
+  const blocks = splitFiles(diff);
+  const paths = blocks.map((block) => parseFileBlock(block)?.newPath ?? null);
+  const rules = [
+    ...compileIgnoreRules(ignorePatterns ?? [], 'config'),
+    ...readIgnoreFiles(paths.filter((p): p is string => p !== null)),
+  ];
+  if (rules.length === 0) {
     return diff;
   }
 
-  const fileDiffs = splitDiffByFile(diff);
-  const filtered = fileDiffs.filter((fileDiff) => {
-    const fileName = getFileNameFromDiff(fileDiff);
-    return !ignorePatterns.some((pattern) => {
-      // Support both exact matches and glob-like patterns
-      if (pattern.includes('*')) {
-        const regex = new RegExp(`^${pattern.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
-        return regex.test(fileName);
-      }
-      // Exact filename match (check if it ends with the pattern for paths)
-      return fileName === pattern || fileName.endsWith(`/${pattern}`);
-    });
+  const filtered = blocks.map((block, index) => {
+    const filePath = paths[index];
+    const rule = filePath === null ? null : findIgnoreRule(rules, filePath);
+    if (!filePath || !rule) {
+      return block.lines;
+    }
+    onExclude?.({ path: filePath, rule });
+    // An ignored file keeps the text before it, such as the commit message of its patch
+    return block.lines.slice(0, Math.max(block.start, 0));
   });
 
-  return filtered.join('\n');
+  return filtered
+    .filter((lines) => lines.length > 0)
+    .map((lines) => lines.join('\n'))
+    .join('\n');
+}
+
+// Header lines that keep a stubbed file's paths and whether it was added, deleted or renamed
+function stubHeader(file: ParsedFile): string[] {
+  const lines = [`diff --git a/${file.oldPath} b/${file.newPath}`];
+  if (file.isNew) lines.push(`new file mode ${file.newMode ?? '100644'}`);
+  if (file.isDeleted) lines.push(`deleted file mode ${file.oldMode ?? '100644'}`);
+  if (file.isRenamed) lines.push(`rename from ${file.oldPath}`, `rename to ${file.newPath}`);
+  return lines;
+}
+
+/**
+ * Replace generated and vendored files with a one-line stub that names the file and its
+ * line counts, so they still show up as changed without spending tokens on their content.
+ * Returns the diff for the prompt and the files that were replaced.
+ */
+export function stubGeneratedFiles(diff: string): { diff: string; generated: GeneratedFile[] } {
+  const blocks = splitFiles(diff);
+  const files = blocks.map(parseFileBlock);
+  const attributes = getGitAttributes(
+    files.flatMap((file) => (file ? [file.newPath] : [])),
+    GENERATED_ATTRIBUTES
+  );
+
+  const generated: GeneratedFile[] = [];
+  const stubbed = blocks.map((block, index) => {
+    const file = files[index];
+    const detected = file && detectGeneratedFile(file, attributes.get(file.newPath));
+    if (!file || !detected) {
+      return block.lines;
+    }
+
+    const { additions, deletions } = getDiffStats([file]);
+    const entry: GeneratedFile = { path: file.newPath, ...detected, additions, deletions };
+    generated.push(entry);
+    const change = file.isNew ? 'added' : file.isDeleted ? 'deleted' : 'changed';
+    return [
+      ...block.lines.slice(0, block.start),
+      ...stubHeader(file),
+      formatGeneratedStub(entry, change),
+    ];
+  });
+
+  if (generated.length === 0) {
+    return { diff, generated };
+  }
+  return { diff: stubbed.map((lines) => lines.join('\n')).join('\n'), generated };
 }
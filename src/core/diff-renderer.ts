@@ -65,6 +65,10 @@ async function renderFileHeader(
   if (file.isNew) status = ' (new)';
   else if (file.isDeleted) status = ' (deleted)';
   else if (file.isRenamed) status = ` (renamed from ${file.oldPath})`;
+  else if (file.isCopied) status = ` (copied from ${file.oldPath})`;
+  if (file.oldMode && file.newMode && file.oldMode !== file.newMode) {
+    status += ` (mode ${file.oldMode} → ${file.newMode})`;
+  }
 
   const fileName = file.newPath + status;
   const width = Math.min(opts.maxWidth, fileName.length + 6);
@@ -153,6 +157,7 @@ export async function renderDiffSummary(
       if (file.isNew) status = c.green(' [new]');
       else if (file.isDeleted) status = c.red(' [deleted]');
       else if (file.isRenamed) status = c.yellow(' [renamed]');
+      else if (file.isCopied) status = c.yellow(' [copied]');
 
       lines.push(`  ${c.cyan(file.newPath)}${status}`);
     }
@@ -166,6 +171,7 @@ export async function renderDiffSummary(
       if (file.isNew) status = ' [new]';
       else if (file.isDeleted) status = ' [deleted]';
       else if (file.isRenamed) status = ' [renamed]';
+      else if (file.isCopied) status = ' [copied]';
 
       lines.push(`  ${file.newPath}${status}`);
     }
@@ -0,0 +1,263 @@
+import type { Finding, Severity, SummaryResult } from '../providers';
+import type { ParsedFile } from './diff-parser';
+
+export const SEVERITIES: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+// Risk categories the analysis prompts ask for
+export const CATEGORIES = [
+  'security',
+  'performance',
+  'correctness',
+  'compatibility',
+  'maintainability',
+];
+
+function toLineNumber(value: unknown): number | undefined {
+  const n = typeof value === 'string' ? Number.parseInt(value, 10) : value;
+  return typeof n === 'number' && Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Normalize a risks/tests array from a model response or an older cache entry. Plain
+ * strings are accepted and become findings without location; malformed items are dropped.
+ */
+export function normalizeFindings(value: unknown): Finding[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const findings: Finding[] = [];
+  for (const item of value) {
+    if (typeof item === 'string') {
+      if (item.trim()) findings.push({ text: item });
+      continue;
+    }
+    if (typeof item !== 'object' || item === null) continue;
+
+    const raw = item as Record<string, unknown>;
+    const text = raw.text ?? raw.description ?? raw.message;
+    if (typeof text !== 'string' || !text.trim()) continue;
+
+    const finding: Finding = { text };
+    const severity = typeof raw.severity === 'string' ? raw.severity.toLowerCase() : '';
+    if (SEVERITIES.includes(severity as Severity)) {
+      finding.severity = severity as Severity;
+    }
+    if (typeof raw.category === 'string' && raw.category.trim()) {
+      finding.category = raw.category.trim().toLowerCase();
+    }
+    if (typeof raw.file === 'string' && raw.file.trim()) {
+      finding.file = raw.file.trim();
+    }
+    const startLine = toLineNumber(raw.startLine ?? raw.line);
+    if (startLine !== undefined) {
+      finding.startLine = startLine;
+      const endLine = toLineNumber(raw.endLine);
+      finding.endLine = endLine !== undefined && endLine >= startLine ? endLine : startLine;
+    }
+    findings.push(finding);
+  }
+
+  return findings;
+}
+
+function findFile(files: ParsedFile[], filePath: string): ParsedFile | undefined {
+  const normalized = filePath.replace(/^\.?\//, '').replace(/^[ab]\//, '');
+  return (
+    files.find((f) => f.newPath === normalized) ||
+    files.find((f) => f.newPath.endsWith(`/${normalized}`))
+  );
+}
+
+/**
+ * Check each finding's location against the parsed diff. Unknown files lose their
+ * location entirely; line ranges that fall outside every new-side hunk are dropped
+ * while the file path is kept.
+ */
+export function validateFindingLocations(findings: Finding[], files: ParsedFile[]): Finding[] {
+  return findings.map((finding) => {
+    if (!finding.file) {
+      const { startLine, endLine, ...rest } = finding;
+      return rest;
+    }
+
+    const file = findFile(files, finding.file);
+    if (!file) {
+      const { file: _file, startLine, endLine, ...rest } = finding;
+      return rest;
+    }
+
+    const located: Finding = { ...finding, file: file.newPath };
+    if (located.startLine === undefined) {
+      return located;
+    }
+
+    const start = located.startLine;
+    const end = located.endLine ?? start;
+    const inHunk = file.hunks.some((hunk) => {
+      const hunkEnd = hunk.newStart + Math.max(hunk.newCount, 1) - 1;
+      return start <= hunkEnd && end >= hunk.newStart;
+    });
+
+    if (!inHunk) {
+      const { startLine, endLine, ...rest } = located;
+      return rest;
+    }
+    return located;
+  });
+}
+
+/**
+ * Validate the locations of all risks and tests in a result against the parsed diff.
+ */
+export function locateFindings(result: SummaryResult, files: ParsedFile[]): SummaryResult {
+  return {
+    ...result,
+    risks: validateFindingLocations(result.risks, files),
+    tests: validateFindingLocations(result.tests, files),
+  };
+}
+
+export interface LineAnchor {
+  path: string;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Anchor a finding to lines a GitHub review comment can point at: new-side lines that
+ * appear in a single hunk. A range that only partly overlaps a hunk is clamped to it,
+ * preferring the hunk with the largest overlap. Returns null when the finding has no
+ * line location or none of its lines are in the diff.
+ */
+export function anchorFinding(finding: Finding, files: ParsedFile[]): LineAnchor | null {
+  if (!finding.file || finding.startLine === undefined) return null;
+
+  const file = findFile(files, finding.file);
+  if (!file) return null;
+
+  const start = finding.startLine;
+  const end = finding.endLine ?? start;
+  let best: LineAnchor | null = null;
+
+  for (const hunk of file.hunks) {
+    const lineNumbers = hunk.lines
+      .map((line) => line.newLineNumber)
+      .filter((n): n is number => n !== undefined);
+    if (lineNumbers.length === 0) continue;
+
+    const startLine = Math.max(start, lineNumbers[0]);
+    const endLine = Math.min(end, lineNumbers[lineNumbers.length - 1]);
+    if (endLine < startLine) continue;
+
+    if (!best || endLine - startLine > best.endLine - best.startLine) {
+      best = { path: file.newPath, startLine, endLine };
+    }
+  }
+
+  return best;
+}
+
+export interface FindingLocation extends LineAnchor {
+  scope?: 'file' | 'change'; // set when the finding had no lines in the diff
+}
+
+function firstChangedLine(file: ParsedFile): number | null {
+  for (const hunk of file.hunks) {
+    const line =
+      hunk.lines.find((l) => l.type === 'addition') ?? hunk.lines.find((l) => l.newLineNumber);
+    if (line?.newLineNumber) return line.newLineNumber;
+  }
+  return null;
+}
+
+/**
+ * Resolve a finding to a location in the new version of the code for reports that need
+ * one for every item. Findings with lines in the diff are anchored to them; findings that
+ * only name a file, or none at all, point at the first changed line of that file or of
+ * the change. Returns null when the diff has no new-side lines.
+ */
+export function resolveFindingLocation(
+  finding: Finding,
+  files: ParsedFile[]
+): FindingLocation | null {
+  const anchor = anchorFinding(finding, files);
+  if (anchor) return anchor;
+
+  const candidates = files.filter((f) => !f.isDeleted && !f.isBinary);
+  const named = finding.file ? findFile(candidates, finding.file) : undefined;
+  for (const file of named ? [named] : candidates) {
+    const line = firstChangedLine(file);
+    if (line) {
+      return {
+        path: file.newPath,
+        startLine: line,
+        endLine: line,
+        scope: named ? 'file' : 'change',
+      };
+    }
+  }
+
+  return null;
+}
+
+// Exit code when risks match the fail-on threshold, so scripts can tell it from a failed run (1)
+export const FAIL_ON_EXIT_CODE = 2;
+
+/**
+ * Raised when the analysis finds risks that match the fail-on threshold.
+ */
+export class FailOnError extends Error {
+  constructor(
+    message: string,
+    readonly matched: number
+  ) {
+    super(message);
+    this.name = 'FailOnError';
+  }
+}
+
+/**
+ * Parse `--fail-on` values: severities fail on that severity or higher, categories fail
+ * on any risk in the category. Accepts a comma-separated string or a list.
+ */
+export function parseFailOn(value: string | string[]): string[] {
+  const items = (Array.isArray(value) ? value : value.split(','))
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+
+  for (const item of items) {
+    if (!SEVERITIES.includes(item as Severity) && !CATEGORIES.includes(item)) {
+      throw new Error(
+        `Invalid fail-on value "${item}". Use a severity (${SEVERITIES.join(', ')}) or a category (${CATEGORIES.join(', ')}).`
+      );
+    }
+  }
+
+  return items;
+}
+
+export function matchesFailOn(finding: Finding, failOn: string[]): boolean {
+  return failOn.some((item) => {
+    if (SEVERITIES.includes(item as Severity)) {
+      return (
+        finding.severity !== undefined &&
+        SEVERITIES.indexOf(finding.severity) >= SEVERITIES.indexOf(item as Severity)
+      );
+    }
+    return finding.category === item;
+  });
+}
+
+export function formatLocation(finding: Finding): string | null {
+  if (!finding.file) return null;
+  if (finding.startLine === undefined) return finding.file;
+  if (finding.endLine === undefined || finding.endLine === finding.startLine) {
+    return `${finding.file}:${finding.startLine}`;
+  }
+  return `${finding.file}:${finding.startLine}-${finding.endLine}`;
+}
+
+export function hasFindingDetails(finding: Finding): boolean {
+  return !!(finding.severity || finding.category || finding.file);
+}
@@ -0,0 +1,114 @@
+import type { ParsedFile } from './diff-parser';
+
+// A file left out of the prompt because it was generated or vendored rather than written
+export interface GeneratedFile {
+  path: string;
+  kind: 'generated' | 'vendored';
+  reason: string; // what gave it away, e.g. "linguist-generated" or "minified"
+  additions: number;
+  deletions: number;
+}
+
+// The .gitattributes attributes GitHub Linguist uses to collapse files in diffs
+export const GENERATED_ATTRIBUTES = ['linguist-generated', 'linguist-vendored'];
+
+// Directories of third-party code checked into a repository
+const VENDORED_PATH = /(?:^|\/)(?:vendor|vendors|third[_-]party|node_modules|bower_components)\//;
+
+// File names that generators produce
+const GENERATED_PATHS: [RegExp, string][] = [
+  [/\.min\.(?:js|mjs|css)$/, 'minified'],
+  [/\.(?:js|css)\.map$/, 'source map'],
+  [
+    /\.pb\.(?:go|cc|h|gw\.go)$|_pb2(?:_grpc)?\.pyi?$|_(?:grpc_)?pb\.(?:js|d\.ts|ts)$/,
+    'protobuf stub',
+  ],
+  [/(?:^|\/)__snapshots__\/|\.snap$/, 'snapshot'],
+  [/\.(?:generated|g)\.\w+$|\.designer\.cs$/, 'generated file name'],
+];
+
+// Markers generators write near the top of a file: "@generated", Go's "Code generated ...
+// DO NOT EDIT." and "Auto-generated by ..." lines. A bare "do not edit" is left alone, since
+// hand-written files use it too ("DO NOT EDIT below this line").
+const GENERATED_HEADERS = [
+  /@generated\b/,
+  /^\W*Code generated\b.*\bDO NOT EDIT\b/,
+  /^\W*(?:This (?:file|code) (?:is|was|has been) )?auto-?generated\b/i,
+  /^\W*(?:This (?:file|code) (?:is|was|has been) )?generated (?:by|from)\b.*\bdo not (?:edit|modify)\b/i,
+];
+
+// How far into a file a generated header is looked for
+const HEADER_LINES = 5;
+
+// Lines longer than this only come out of a minifier or a code generator
+const MINIFIED_LINE_LENGTH = 1000;
+
+// Share of the changed lines that must be that long, so one long data literal in a
+// hand-written file does not count
+const MINIFIED_LINE_RATIO = 0.5;
+
+// A linguist attribute is set with "attr" or "attr=true" and turned off with "-attr" or "attr=false"
+function attributeState(value: string | undefined): boolean | null {
+  if (value === 'set' || value === 'true') return true;
+  if (value === 'unset' || value === 'false') return false;
+  return null;
+}
+
+function hasGeneratedHeader(file: ParsedFile): boolean {
+  for (const hunk of file.hunks) {
+    for (const line of hunk.lines) {
+      const lineNumber = file.isDeleted ? line.oldLineNumber : line.newLineNumber;
+      if (lineNumber !== undefined && lineNumber <= HEADER_LINES) {
+        if (GENERATED_HEADERS.some((header) => header.test(line.content))) return true;
+      }
+    }
+  }
+  return false;
+}
+
+function isMinified(file: ParsedFile): boolean {
+  const side = file.isDeleted ? 'deletion' : 'addition';
+  const lines = file.hunks.flatMap((hunk) =>
+    hunk.lines.filter((line) => line.type === side && line.content.trim())
+  );
+  const long = lines.filter((line) => line.content.length > MINIFIED_LINE_LENGTH).length;
+  return long > 0 && long >= lines.length * MINIFIED_LINE_RATIO;
+}
+
+/**
+ * Decide whether a changed file is generated or vendored, and why. `attributes` holds its
+ * .gitattributes values; setting `linguist-generated` or `linguist-vendored` to false opts a
+ * file out of the path and content heuristics. Returns null for hand-written files.
+ */
+export function detectGeneratedFile(
+  file: ParsedFile,
+  attributes: Record<string, string> = {}
+): Pick<GeneratedFile, 'kind' | 'reason'> | null {
+  const generated = attributeState(attributes['linguist-generated']);
+  const vendored = attributeState(attributes['linguist-vendored']);
+  if (generated) return { kind: 'generated', reason: 'linguist-generated' };
+  if (vendored) return { kind: 'vendored', reason: 'linguist-vendored' };
+
+  if (vendored === null && VENDORED_PATH.test(file.newPath)) {
+    return { kind: 'vendored', reason: 'vendored path' };
+  }
+  if (generated === false || file.isBinary) {
+    return null;
+  }
+
+  for (const [pattern, reason] of GENERATED_PATHS) {
+    if (pattern.test(file.newPath)) return { kind: 'generated', reason };
+  }
+  if (hasGeneratedHeader(file)) return { kind: 'generated', reason: 'generated header' };
+  if (isMinified(file)) return { kind: 'generated', reason: 'minified' };
+  return null;
+}
+
+/**
+ * The line that stands in for a generated file in the prompt, e.g.
+ * "Generated file api.pb.go changed, +120/-80 (protobuf stub)".
+ */
+export function formatGeneratedStub(file: GeneratedFile, change = 'changed'): string {
+  const label = file.kind === 'vendored' ? 'Vendored' : 'Generated';
+  return `${label} file ${file.path} ${change}, +${file.additions}/-${file.deletions} (${file.reason})`;
+}
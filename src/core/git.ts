@@ -45,6 +45,59 @@ export function getCurrentBranch(): string | null {
   }
 }
 
+export function getRemoteUrl(remote = 'origin'): string | null {
+  try {
+    const result = execSync(`git remote get-url ${remote}`, {
+      encoding: 'utf-8',
+      stdio: 'pipe',
+    });
+    return result.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+export function getGitConfig(key: string): string | null {
+  try {
+    const result = execSync(`git config --get ${key}`, {
+      encoding: 'utf-8',
+      stdio: 'pipe',
+    });
+    return result.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Absolute path of the git directory shared by all worktrees, where hooks live by default.
+ */
+export function getGitCommonDir(): string {
+  const result = execSync('git rev-parse --git-common-dir', {
+    encoding: 'utf-8',
+    stdio: 'pipe',
+  });
+  return path.resolve(result.trim());
+}
+
+/**
+ * The editor git would use for a commit message: GIT_EDITOR, core.editor, VISUAL, EDITOR,
+ * then git's built-in default.
+ */
+export function getGitEditor(): string {
+  try {
+    const result = execSync('git var GIT_EDITOR', {
+      encoding: 'utf-8',
+      stdio: 'pipe',
+    });
+    if (result.trim()) {
+      return result.trim();
+    }
+  } catch {}
+
+  return process.env.VISUAL || process.env.EDITOR || 'vi';
+}
+
 export function getDefaultBranch(): string {
   try {
     const result = execSync('git symbolic-ref refs/remotes/origin/HEAD', {
@@ -113,6 +166,157 @@ export function getGitDiff(target?: string): string {
   }
 }
 
+export function refExists(ref: string): boolean {
+  try {
+    execSync(`git rev-parse --verify --quiet ${ref}^{commit}`, { stdio: 'pipe' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface CommitInfo {
+  sha: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * Commits reachable from `head` but not from `base`, oldest first, without merges.
+ */
+export function getCommitLog(base: string, head = 'HEAD'): CommitInfo[] {
+  try {
+    const result = execSync(
+      `git log --reverse --no-merges --format=%H%x1f%s%x1f%b%x1e ${base}..${head}`,
+      {
+        encoding: 'utf-8',
+        stdio: 'pipe',
+        maxBuffer: 10 * 1024 * 1024,
+      }
+    );
+    return parseCommitLog(result);
+  } catch (error) {
+    throw new Error(`Failed to get commit log for ${base}..${head}: ${error}`);
+  }
+}
+
+/**
+ * Commits in a revision range such as `main..feature`, oldest first, without merges.
+ */
+export function getRevList(range: string): CommitInfo[] {
+  try {
+    const shas = execSync(`git rev-list --reverse --no-merges ${range}`, {
+      encoding: 'utf-8',
+      stdio: 'pipe',
+      maxBuffer: 10 * 1024 * 1024,
+    })
+      .split('\n')
+      .filter(Boolean);
+    if (shas.length === 0) return [];
+
+    const result = execSync('git log --no-walk=unsorted --stdin --format=%H%x1f%s%x1f%b%x1e', {
+      input: shas.join('\n'),
+      encoding: 'utf-8',
+      stdio: 'pipe',
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return parseCommitLog(result);
+  } catch (error) {
+    throw new Error(`Failed to list commits in "${range}": ${error}`);
+  }
+}
+
+// Records written with --format=%H%x1f%s%x1f%b%x1e
+function parseCommitLog(output: string): CommitInfo[] {
+  return output
+    .split('\x1e')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [sha, subject, body = ''] = entry.split('\x1f');
+      return { sha, subject, body: body.trim() };
+    });
+}
+
+/**
+ * The changes a single commit made, including the root commit.
+ */
+export function getCommitPatch(sha: string): string {
+  try {
+    const result = execSync(`git show --format= --no-color --no-ext-diff ${sha}`, {
+      encoding: 'utf-8',
+      stdio: 'pipe',
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return result;
+  } catch (error) {
+    throw new Error(`Failed to get the diff of commit ${sha}: ${error}`);
+  }
+}
+
+/**
+ * Contents of a blob by its (abbreviated) hash, or null when the repository does not have it,
+ * e.g. for the working tree side of an unstaged diff.
+ */
+export function readBlob(hash: string): string | null {
+  if (!/^[0-9a-f]{4,64}$/.test(hash)) return null;
+  try {
+    return execSync(`git cat-file blob ${hash}`, {
+      cwd: getGitRoot() ?? undefined,
+      encoding: 'utf-8',
+      stdio: 'pipe',
+      maxBuffer: 10 * 1024 * 1024,
+    });
+  } catch {
+    return null;
+  }
+}
+
+// Committer date of a commit as YYYY-MM-DD
+export function getCommitDate(ref: string): string {
+  try {
+    const result = execSync(`git log -1 --format=%cI ${ref}`, {
+      encoding: 'utf-8',
+      stdio: 'pipe',
+    });
+    return result.trim().slice(0, 10);
+  } catch (error) {
+    throw new Error(`Failed to get the date of ${ref}: ${error}`);
+  }
+}
+
+/**
+ * Values of git attributes for a set of paths, as set by .gitattributes files: "set",
+ * "unset", "unspecified" or the assigned value. Empty outside a git repository.
+ */
+export function getGitAttributes(
+  paths: string[],
+  attributes: string[]
+): Map<string, Record<string, string>> {
+  const values = new Map<string, Record<string, string>>();
+  const root = getGitRoot();
+  if (!root || paths.length === 0) return values;
+
+  try {
+    const result = execSync(`git check-attr -z --stdin ${attributes.join(' ')}`, {
+      cwd: root,
+      input: paths.join('\0'),
+      encoding: 'utf-8',
+      stdio: 'pipe',
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    // NUL-separated triples of path, attribute and value
+    const fields = result.split('\0');
+    for (let i = 0; i + 2 < fields.length; i += 3) {
+      const [file, attribute, value] = fields.slice(i, i + 3);
+      values.set(file, { ...values.get(file), [attribute]: value });
+    }
+  } catch {
+    // No attributes when git cannot read them
+  }
+  return values;
+}
+
 export function getBranchDiff(base: string, head?: string): string {
   const headRef = head || 'HEAD';
   try {
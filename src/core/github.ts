@@ -0,0 +1,310 @@
+import { fetchWithRetry } from '../providers/http';
+import { getRemoteUrl } from './git';
+
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+
+// Hidden marker identifying the comment diff-intent creates and then keeps updating
+export const STICKY_COMMENT_MARKER = '<!-- diff-intent:summary -->';
+
+// Hidden marker on every inline review comment, so later runs can skip findings already posted
+export const REVIEW_COMMENT_MARKER = '<!-- diff-intent:review -->';
+
+const COMMENTS_PER_PAGE = 100;
+
+export interface GitHubRepo {
+  owner: string;
+  repo: string;
+}
+
+export interface GitHubClient {
+  apiUrl: string;
+  token?: string;
+  repo: GitHubRepo;
+}
+
+export interface PullRequest {
+  number: number;
+  title: string;
+  body: string;
+  state: string;
+  draft: boolean;
+  url: string;
+  baseRef: string;
+  headRef: string;
+  headSha: string;
+}
+
+export interface IssueComment {
+  id: number;
+  body: string;
+  url: string;
+}
+
+// Inline comment of a pull request review, anchored to new-side lines of the diff
+export interface ReviewComment {
+  path: string;
+  line: number;
+  side: 'RIGHT';
+  start_line?: number;
+  start_side?: 'RIGHT';
+  body: string;
+}
+
+// Request body of POST /repos/{owner}/{repo}/pulls/{number}/reviews
+export interface ReviewPayload {
+  commit_id?: string;
+  event: 'COMMENT';
+  body: string;
+  comments: ReviewComment[];
+}
+
+/**
+ * Parse "owner/name" or a GitHub remote URL (https, ssh or scp-style, any host so GitHub
+ * Enterprise remotes work too) into its owner and repository name.
+ */
+export function parseGitHubRepo(value: string): GitHubRepo | null {
+  const match =
+    /^([\w.-]+)\/([\w.-]+)$/.exec(value) ||
+    /^(?:https?:\/\/|ssh:\/\/)?(?:[^@/]+@)?[^/:]+[/:](?:\d+\/)?([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/.exec(
+      value
+    );
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+/**
+ * Repository to talk to: the explicit `owner/name`, then `GITHUB_REPOSITORY` (set in
+ * GitHub Actions), then the `origin` remote of the current checkout.
+ */
+export function resolveGitHubRepo(repo?: string): GitHubRepo {
+  const candidates = [repo, process.env.GITHUB_REPOSITORY, getRemoteUrl()];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const parsed = parseGitHubRepo(candidate);
+    if (parsed) return parsed;
+    if (candidate === repo) {
+      throw new Error(`Invalid repository "${repo}". Use the owner/name form.`);
+    }
+  }
+
+  throw new Error(
+    'Could not determine the GitHub repository. Pass --repo owner/name or set GITHUB_REPOSITORY.'
+  );
+}
+
+export function createGitHubClient(options: {
+  repo: GitHubRepo;
+  token?: string;
+  apiUrl?: string;
+}): GitHubClient {
+  return {
+    repo: options.repo,
+    token: options.token,
+    apiUrl: (options.apiUrl || DEFAULT_GITHUB_API_URL).replace(/\/+$/, ''),
+  };
+}
+
+async function request(
+  client: GitHubClient,
+  method: string,
+  path: string,
+  options: { body?: unknown; accept?: string } = {}
+): Promise<Response> {
+  const headers: Record<string, string> = {
+    Accept: options.accept || 'application/vnd.github+json',
+    'X-GitHub-Api-Version': '2022-11-28',
+    'User-Agent': 'diff-intent',
+  };
+  if (client.token) {
+    headers.Authorization = `Bearer ${client.token}`;
+  }
+  if (options.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const response = await fetchWithRetry(
+    `${client.apiUrl}${path}`,
+    {
+      method,
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    },
+    'GitHub API',
+    // A POST that timed out or failed may still have created its comment or review, and
+    // sending it again would post a duplicate
+    method === 'POST' ? { maxRetries: 0 } : {}
+  );
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    let message = errorBody;
+    try {
+      message = JSON.parse(errorBody).message || errorBody;
+    } catch {}
+    throw new Error(
+      `GitHub API error: ${method} ${path} returned ${response.status} ${response.statusText} - ${message}`
+    );
+  }
+
+  return response;
+}
+
+function repoPath(client: GitHubClient): string {
+  return `/repos/${client.repo.owner}/${client.repo.repo}`;
+}
+
+export async function getPullRequest(client: GitHubClient, number: number): Promise<PullRequest> {
+  const response = await request(client, 'GET', `${repoPath(client)}/pulls/${number}`);
+  const data = (await response.json()) as {
+    number: number;
+    title: string;
+    body: string | null;
+    state: string;
+    draft?: boolean;
+    html_url: string;
+    base: { ref: string };
+    head: { ref: string; sha: string };
+  };
+
+  return {
+    number: data.number,
+    title: data.title,
+    body: data.body || '',
+    state: data.state,
+    draft: data.draft === true,
+    url: data.html_url,
+    baseRef: data.base.ref,
+    headRef: data.head.ref,
+    headSha: data.head.sha,
+  };
+}
+
+export async function getPullRequestDiff(client: GitHubClient, number: number): Promise<string> {
+  const response = await request(client, 'GET', `${repoPath(client)}/pulls/${number}`, {
+    accept: 'application/vnd.github.diff',
+  });
+  return response.text();
+}
+
+/**
+ * Find the comment on a pull request that contains `marker`, searching every page of
+ * comments. Returns null when there is none yet.
+ */
+export async function findStickyComment(
+  client: GitHubClient,
+  number: number,
+  marker: string = STICKY_COMMENT_MARKER
+): Promise<IssueComment | null> {
+  for (let page = 1; ; page++) {
+    const response = await request(
+      client,
+      'GET',
+      `${repoPath(client)}/issues/${number}/comments?per_page=${COMMENTS_PER_PAGE}&page=${page}`
+    );
+    const comments = (await response.json()) as { id: number; body?: string; html_url: string }[];
+
+    const match = comments.find((c) => c.body?.includes(marker));
+    if (match) {
+      return { id: match.id, body: match.body || '', url: match.html_url };
+    }
+    if (comments.length < COMMENTS_PER_PAGE) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Create or update the single comment identified by `marker`. The marker is added to
+ * `body` if it is not already there, so the comment can be found again next time.
+ */
+export async function upsertStickyComment(
+  client: GitHubClient,
+  number: number,
+  body: string,
+  marker: string = STICKY_COMMENT_MARKER
+): Promise<{ comment: IssueComment; created: boolean }> {
+  if (!client.token) {
+    throw new Error('GITHUB_TOKEN environment variable is not set; it is needed to comment.');
+  }
+
+  const content = body.includes(marker) ? body : `${marker}\n${body}`;
+  const existing = await findStickyComment(client, number, marker);
+
+  const response = existing
+    ? await request(client, 'PATCH', `${repoPath(client)}/issues/comments/${existing.id}`, {
+        body: { body: content },
+      })
+    : await request(client, 'POST', `${repoPath(client)}/issues/${number}/comments`, {
+        body: { body: content },
+      });
+  const data = (await response.json()) as { id: number; body?: string; html_url: string };
+
+  return {
+    comment: { id: data.id, body: data.body || '', url: data.html_url },
+    created: !existing,
+  };
+}
+
+// Where an inline comment sits: its path and line range
+export function reviewCommentKey(
+  comment: Pick<ReviewComment, 'path' | 'line' | 'start_line'>
+): string {
+  return `${comment.path}:${comment.start_line ?? comment.line}-${comment.line}`;
+}
+
+/**
+ * List the inline review comments on a pull request that contain `marker`, searching every
+ * page. Comments GitHub marks as outdated (no line in the current diff) are left out, so a
+ * finding on code that changed since is posted again.
+ */
+export async function listReviewComments(
+  client: GitHubClient,
+  number: number,
+  marker: string = REVIEW_COMMENT_MARKER
+): Promise<ReviewComment[]> {
+  const found: ReviewComment[] = [];
+  for (let page = 1; ; page++) {
+    const response = await request(
+      client,
+      'GET',
+      `${repoPath(client)}/pulls/${number}/comments?per_page=${COMMENTS_PER_PAGE}&page=${page}`
+    );
+    const comments = (await response.json()) as {
+      path: string;
+      line?: number | null;
+      start_line?: number | null;
+      body?: string;
+    }[];
+
+    for (const comment of comments) {
+      if (!comment.body?.includes(marker) || typeof comment.line !== 'number') continue;
+      found.push({
+        path: comment.path,
+        line: comment.line,
+        side: 'RIGHT',
+        ...(typeof comment.start_line === 'number'
+          ? { start_line: comment.start_line, start_side: 'RIGHT' as const }
+          : {}),
+        body: comment.body,
+      });
+    }
+    if (comments.length < COMMENTS_PER_PAGE) {
+      return found;
+    }
+  }
+}
+
+export async function createReview(
+  client: GitHubClient,
+  number: number,
+  payload: ReviewPayload
+): Promise<{ id: number; url: string }> {
+  if (!client.token) {
+    throw new Error('GITHUB_TOKEN environment variable is not set; it is needed to post a review.');
+  }
+
+  const response = await request(client, 'POST', `${repoPath(client)}/pulls/${number}/reviews`, {
+    body: payload,
+  });
+  const data = (await response.json()) as { id: number; html_url: string };
+  return { id: data.id, url: data.html_url };
+}
@@ -0,0 +1,185 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { getGitRoot } from './git';
+
+// Per-directory ignore file, read like .gitignore
+export const IGNORE_FILE = '.diffintentignore';
+
+export interface IgnoreRule {
+  pattern: string; // as written, for reporting
+  source: string; // "config" or the ignore file the pattern comes from
+  base: string; // directory the pattern is relative to, "" or ending in "/"
+  negate: boolean;
+  dirOnly: boolean;
+  matchBase: boolean; // no slash in the pattern: matches a name at any depth
+  regex: RegExp;
+}
+
+export interface ExcludedFile {
+  path: string;
+  rule: IgnoreRule;
+}
+
+function escapeRegex(char: string): string {
+  return /[.*+?^${}()|[\]\\/]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Translate a gitignore glob to a regular expression source: `*` and `?` stay within a path
+ * segment, `**` spans directories when it is a whole segment, and `[...]` is a class.
+ */
+function globToRegex(glob: string): string {
+  let regex = '';
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i];
+
+    if (char === '*') {
+      let end = i;
+      while (glob[end] === '*') end++;
+      const wholeSegment =
+        end - i === 2 &&
+        (i === 0 || glob[i - 1] === '/') &&
+        (end === glob.length || glob[end] === '/');
+      if (wholeSegment && end === glob.length) {
+        regex += '.*';
+        i = end;
+      } else if (wholeSegment) {
+        regex += '(?:.*/)?';
+        i = end + 1;
+      } else {
+        regex += '[^/]*';
+        i = end;
+      }
+      continue;
+    }
+
+    if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', glob[i + 1] === ']' ? i + 2 : i + 1);
+      if (close === -1) {
+        regex += '\\[';
+      } else {
+        let body = glob.slice(i + 1, close);
+        const negated = body[0] === '!' || body[0] === '^';
+        if (negated) body = body.slice(1);
+        body = body.replace(/[\\\]^]/g, (c) => `\\${c}`);
+        regex += negated ? `[^/${body}]` : `[${body}]`;
+        i = close;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      i++;
+      regex += escapeRegex(glob[i]);
+    } else {
+      regex += escapeRegex(char);
+    }
+    i++;
+  }
+
+  return regex;
+}
+
+/**
+ * Compile one gitignore line. Returns null for blank lines and comments.
+ */
+export function compileIgnoreRule(line: string, source: string, base = ''): IgnoreRule | null {
+  // Trailing spaces are ignored unless escaped with a backslash
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) {
+    return null;
+  }
+
+  const negate = pattern.startsWith('!');
+  if (negate) pattern = pattern.slice(1);
+  if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) pattern = pattern.slice(1);
+
+  const dirOnly = pattern.endsWith('/');
+  if (dirOnly) pattern = pattern.replace(/\/+$/, '');
+
+  // A slash at the start or in the middle anchors the pattern to its directory
+  const matchBase = !pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  if (!pattern) {
+    return null;
+  }
+
+  return {
+    pattern: line.trim(),
+    source,
+    base,
+    negate,
+    dirOnly,
+    matchBase,
+    regex: new RegExp(`^${globToRegex(pattern)}$`),
+  };
+}
+
+/**
+ * Compile a list of gitignore lines, such as `Config.ignore` or the lines of an ignore file.
+ */
+export function compileIgnoreRules(lines: string[], source: string, base = ''): IgnoreRule[] {
+  return lines
+    .map((line) => compileIgnoreRule(line, source, base))
+    .filter((rule): rule is IgnoreRule => rule !== null);
+}
+
+// The last rule that matches a path, as in .gitignore later lines override earlier ones
+function lastMatch(rules: IgnoreRule[], filePath: string, isDir: boolean): IgnoreRule | null {
+  let match: IgnoreRule | null = null;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    if (!filePath.startsWith(rule.base) || filePath.length === rule.base.length) continue;
+    const relative = filePath.slice(rule.base.length);
+    const subject = rule.matchBase ? relative.slice(relative.lastIndexOf('/') + 1) : relative;
+    if (rule.regex.test(subject)) {
+      match = rule;
+    }
+  }
+  return match;
+}
+
+/**
+ * Find the rule that excludes a path, or null when the path is kept. Like git, a file in an
+ * excluded directory cannot be re-included by a negated pattern.
+ */
+export function findIgnoreRule(rules: IgnoreRule[], filePath: string): IgnoreRule | null {
+  const segments = filePath.split('/');
+  for (let i = 1; i < segments.length; i++) {
+    const rule = lastMatch(rules, segments.slice(0, i).join('/'), true);
+    if (rule && !rule.negate) {
+      return rule;
+    }
+  }
+
+  const rule = lastMatch(rules, filePath, false);
+  return rule && !rule.negate ? rule : null;
+}
+
+/**
+ * Read the ignore files that apply to a set of paths: the one at the git root and any in the
+ * directories along the way. Rules are ordered from the root down, so deeper files win.
+ */
+export function readIgnoreFiles(
+  filePaths: string[],
+  root: string = getGitRoot() ?? process.cwd()
+): IgnoreRule[] {
+  const dirs = new Set<string>(['']);
+  for (const filePath of filePaths) {
+    const segments = filePath.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      dirs.add(`${segments.slice(0, i).join('/')}/`);
+    }
+  }
+
+  const rules: IgnoreRule[] = [];
+  const ordered = [...dirs].sort((a, b) => a.split('/').length - b.split('/').length);
+  for (const dir of ordered) {
+    const file = path.join(root, dir, IGNORE_FILE);
+    if (!fs.existsSync(file)) continue;
+    const lines = fs.readFileSync(file, 'utf-8').split(/\r?\n/);
+    rules.push(...compileIgnoreRules(lines, `${dir}${IGNORE_FILE}`, dir));
+  }
+  return rules;
+}
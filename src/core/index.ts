@@ -1,4 +1,10 @@
 export * from './git';
+export * from './github';
 export * from './diff-parser';
 export * from './diff-renderer';
 export * from './cache';
+export * from './chunker';
+export * from './findings';
+export * from './ignore';
+export * from './generated';
+export * from './context';
@@ -0,0 +1,99 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+// Where GitHub looks for a pull request template, in order
+export const PR_TEMPLATE_PATHS = [
+  '.github/pull_request_template.md',
+  '.github/PULL_REQUEST_TEMPLATE.md',
+  'pull_request_template.md',
+  'PULL_REQUEST_TEMPLATE.md',
+  'docs/pull_request_template.md',
+  'docs/PULL_REQUEST_TEMPLATE.md',
+];
+
+// Used when the repository has no template of its own
+export const DEFAULT_PR_TEMPLATE = `## Summary
+<!-- What the change does and why, in 2-3 sentences. -->
+
+## Changes
+<!-- The notable changes, one bullet each. -->
+
+## Risks
+<!-- What could break and what reviewers should look at closely. "None" if nothing stands out. -->
+
+## Testing
+<!-- How the change was or should be tested. -->
+`;
+
+export interface TemplateSection {
+  heading: string; // the heading line, e.g. "## Summary"; empty for a template without headings
+  guidance: string; // everything under the heading: instructions, comments, checklists
+}
+
+export interface PullRequestTemplate {
+  preamble: string; // text before the first heading
+  sections: TemplateSection[];
+}
+
+export function findPullRequestTemplate(root: string): string | null {
+  for (const candidate of PR_TEMPLATE_PATHS) {
+    const filePath = path.join(root, candidate);
+    if (fs.existsSync(filePath) && fs.statSync(filePath).isFile()) {
+      return filePath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Split a markdown template into its sections at every heading outside code fences.
+ * A template without headings becomes a single section without one.
+ */
+export function parseTemplate(content: string): PullRequestTemplate {
+  const preamble: string[] = [];
+  const sections: { heading: string; lines: string[] }[] = [];
+  let inFence = false;
+
+  for (const line of content.replace(/\r\n/g, '\n').split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    if (!inFence && /^#{1,6}\s+\S/.test(line)) {
+      sections.push({ heading: line.trim(), lines: [] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].lines.push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+
+  if (sections.length === 0) {
+    return { preamble: '', sections: [{ heading: '', guidance: content.trim() }] };
+  }
+
+  return {
+    preamble: preamble.join('\n').trim(),
+    sections: sections.map((s) => ({ heading: s.heading, guidance: s.lines.join('\n').trim() })),
+  };
+}
+
+/**
+ * Render the template with each section's guidance replaced by the filled-in content.
+ * Sections without content keep their guidance; HTML comments in the preamble, which
+ * are instructions for the author, are dropped.
+ */
+export function fillTemplate(template: PullRequestTemplate, contents: string[]): string {
+  const blocks: string[] = [];
+
+  const preamble = template.preamble.replace(/<!--[\s\S]*?-->/g, '').trim();
+  if (preamble) {
+    blocks.push(preamble);
+  }
+
+  template.sections.forEach((section, i) => {
+    const content = contents[i]?.trim() || section.guidance;
+    blocks.push([section.heading, content].filter(Boolean).join('\n\n'));
+  });
+
+  return `${blocks.join('\n\n')}\n`;
+}
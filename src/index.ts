@@ -1,30 +1,68 @@
 #!/usr/bin/env node
 
 import 'dotenv/config';
-import { Command } from 'commander';
-import { runAnalyze, runConfig, runInit } from './commands';
+import { Command, InvalidArgumentError } from 'commander';
+import {
+  DEFAULT_CHANGELOG_FILE,
+  type HookName,
+  runAnalyze,
+  runChangelog,
+  runCommitMsg,
+  runConfig,
+  runDescribe,
+  runHooks,
+  runInit,
+  runPr,
+} from './commands';
 import type { OutputFormat } from './config';
+import { FAIL_ON_EXIT_CODE, FailOnError } from './core';
+import { PROVIDER_NAMES, type ProviderName } from './providers';
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const { version: VERSION } = require('../package.json');
 
+// Reject an unknown --provider while the arguments are parsed, before any work starts
+function parseProviderName(value: string): ProviderName {
+  if (!PROVIDER_NAMES.includes(value as ProviderName)) {
+    throw new InvalidArgumentError(`Use one of: ${PROVIDER_NAMES.join(', ')}.`);
+  }
+  return value as ProviderName;
+}
+
 const program = new Command();
 
 program
   .name('diff-intent')
   .description('AI-powered git diff analysis - understand the intent behind code changes')
   .version(VERSION)
+  // Options after a subcommand belong to it, even when the top-level command has the same one
+  .enablePositionalOptions()
   .argument('[target]', 'Git diff target (e.g., HEAD~1, main..feature, commit-sha)')
-  .option('-p, --provider <provider>', 'LLM provider (groq, openai, anthropic)')
+  .option(
+    '-p, --provider <provider>',
+    'LLM provider (groq, openai, anthropic, local)',
+    parseProviderName
+  )
   .option('-m, --model <model>', 'Specific model to use')
-  .option('-f, --format <format>', 'Output format (terminal, markdown, json, github)')
+  .option(
+    '-f, --format <format>',
+    'Output format (terminal, markdown, json, github, github-review, gitlab, bitbucket, sarif)'
+  )
   .option('--file <path>', 'Read diff from file instead of git')
   .option('--no-color', 'Disable colored output')
   .option('--per-file', 'Detailed per-file analysis (vs. high-level overview)')
+  .option('--per-commit', 'Analyze each commit in a range and check its commit message')
+  .option('--concurrency <n>', 'Parallel requests in per-file and per-commit mode', Number)
   .option('-s, --side-by-side', 'Show diff and intent side by side')
   .option('--show-cost', 'Show token count and cost estimate')
   .option('-i, --interactive', 'Enable interactive follow-up questions')
   .option('--no-cache', 'Bypass response cache')
+  .option('--no-stream', 'Wait for the full response instead of streaming it')
+  .option('--fail-on <levels>', 'Exit non-zero on risks of these severities or categories')
+  .option('--junit <path>', 'Write the risks as a JUnit XML report')
+  .option('--checkstyle <path>', 'Write the risks as a checkstyle XML report')
+  .option('--context [tokens]', 'Send the code around each change (default budget: 2000)', Number)
+  .option('--verbose', 'List the files excluded by ignore patterns')
   .action(async (target: string | undefined, options) => {
     try {
       await runAnalyze(target, {
@@ -33,15 +71,23 @@ program
         format: options.format as OutputFormat,
         noColor: !options.color,
         perFile: options.perFile,
+        perCommit: options.perCommit,
+        concurrency: options.concurrency,
         sideBySide: options.sideBySide,
         showCost: options.showCost,
         interactive: options.interactive,
         file: options.file,
         noCache: !options.cache,
+        noStream: !options.stream,
+        failOn: options.failOn,
+        junit: options.junit,
+        checkstyle: options.checkstyle,
+        verbose: options.verbose,
+        context: options.context,
       });
     } catch (error) {
       console.error('Error:', error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      process.exit(error instanceof FailOnError ? FAIL_ON_EXIT_CODE : 1);
     }
   });
 
@@ -57,6 +103,165 @@ program
     }
   });
 
+program
+  .command('pr')
+  .description('Analyze a GitHub pull request and post the summary as a PR comment')
+  .argument('<number>', 'Pull request number')
+  .option(
+    '-p, --provider <provider>',
+    'LLM provider (groq, openai, anthropic, local)',
+    parseProviderName
+  )
+  .option('-m, --model <model>', 'Specific model to use')
+  .option('--repo <owner/name>', 'Repository (default: GITHUB_REPOSITORY or the origin remote)')
+  .option('--api-url <url>', 'GitHub API base URL, e.g. for GitHub Enterprise Server')
+  .option('--per-file', 'Detailed per-file analysis (vs. high-level overview)')
+  .option('--concurrency <n>', 'Parallel requests in per-file mode', Number)
+  .option('--show-cost', 'Show token count and cost estimate')
+  .option('--no-cache', 'Bypass response cache')
+  .option('--review', 'Post findings on changed lines as inline review comments')
+  .option('--dry-run', 'Print the comment instead of posting it')
+  .option('--fail-on <levels>', 'Exit non-zero on risks of these severities or categories')
+  .option('--junit <path>', 'Write the risks as a JUnit XML report')
+  .option('--checkstyle <path>', 'Write the risks as a checkstyle XML report')
+  .action(async (number: string, options) => {
+    try {
+      await runPr(number, {
+        provider: options.provider,
+        model: options.model,
+        repo: options.repo,
+        apiUrl: options.apiUrl,
+        perFile: options.perFile,
+        concurrency: options.concurrency,
+        showCost: options.showCost,
+        noCache: !options.cache,
+        review: options.review,
+        dryRun: options.dryRun,
+        failOn: options.failOn,
+        junit: options.junit,
+        checkstyle: options.checkstyle,
+      });
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(error instanceof FailOnError ? FAIL_ON_EXIT_CODE : 1);
+    }
+  });
+
+program
+  .command('commit-msg')
+  .description('Write a Conventional Commits message for the staged changes')
+  .option(
+    '-p, --provider <provider>',
+    'LLM provider (groq, openai, anthropic, local)',
+    parseProviderName
+  )
+  .option('-m, --model <model>', 'Specific model to use')
+  .option('--file <path>', 'Read diff from file instead of the staged changes')
+  .option('-o, --output <path>', 'Write the message to a file instead of printing it')
+  .option('-e, --edit', 'Open the message in your editor before using it')
+  .option('--conventional', 'Fail unless the message has an allowed Conventional Commits type')
+  .option('--no-cache', 'Bypass response cache')
+  .action(async (options) => {
+    try {
+      await runCommitMsg({
+        provider: options.provider,
+        model: options.model,
+        file: options.file,
+        output: options.output,
+        edit: options.edit,
+        conventional: options.conventional,
+        noCache: !options.cache,
+      });
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('describe')
+  .description('Write a pull request title and description for a branch')
+  .argument('[range]', 'Branch range, e.g. main..feature (default: default branch..HEAD)')
+  .option(
+    '-p, --provider <provider>',
+    'LLM provider (groq, openai, anthropic, local)',
+    parseProviderName
+  )
+  .option('-m, --model <model>', 'Specific model to use')
+  .option('--template <path>', 'Pull request template (default: .github/pull_request_template.md)')
+  .option('--json', 'Print {"title", "body"} as JSON')
+  .option('--no-cache', 'Bypass response cache')
+  .action(async (range: string | undefined, options) => {
+    try {
+      await runDescribe(range, {
+        provider: options.provider,
+        model: options.model,
+        template: options.template,
+        json: options.json,
+        noCache: !options.cache,
+      });
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('changelog')
+  .description('Write a changelog section for the commits in a range')
+  .argument('<range>', 'Commit range, e.g. v1.0.0..v1.1.0')
+  .option(
+    '-p, --provider <provider>',
+    'LLM provider (groq, openai, anthropic, local)',
+    parseProviderName
+  )
+  .option('-m, --model <model>', 'Specific model to use')
+  .option('--concurrency <n>', 'Parallel requests (default: provider-specific)', Number)
+  .option('--release <version>', 'Version heading (default: the range end tag, or Unreleased)')
+  .option('--write [file]', 'Add the section to a changelog file (default: CHANGELOG.md)')
+  .option('--no-color', 'Disable colored output')
+  .option('--no-cache', 'Bypass response cache')
+  .action(async (range: string, options) => {
+    try {
+      await runChangelog(range, {
+        provider: options.provider,
+        model: options.model,
+        concurrency: options.concurrency,
+        release: options.release,
+        write: options.write === true ? DEFAULT_CHANGELOG_FILE : options.write,
+        noColor: !options.color,
+        noCache: !options.cache,
+      });
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('hooks')
+  .description('Install or uninstall the prepare-commit-msg and pre-push git hooks')
+  .argument('<action>', 'install or uninstall')
+  .option('--prepare-commit-msg', 'Only the hook that suggests a commit message')
+  .option('--pre-push', 'Only the hook that analyzes the commits being pushed')
+  .option('--block', 'Make pre-push stop the push instead of warning')
+  .option('--fail-on <levels>', 'Risks pre-push warns or blocks on (default: high)')
+  .action(async (action: string, options) => {
+    try {
+      const hooks: HookName[] = [];
+      if (options.prepareCommitMsg) hooks.push('prepare-commit-msg');
+      if (options.prePush) hooks.push('pre-push');
+      await runHooks(action, {
+        hooks: hooks.length > 0 ? hooks : undefined,
+        block: options.block,
+        failOn: options.failOn,
+      });
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 program
   .command('config')
   .description('Show current configuration')
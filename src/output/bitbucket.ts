@@ -0,0 +1,121 @@
+import type { GeneratedFile } from '../core/generated';
+import type { SummaryResult } from '../providers';
+import type { AggregateResult, FollowUpResult, FormatOptions } from './index';
+import {
+  formatCostFooter,
+  formatCreditFooter,
+  formatFileStats,
+  formatFileTable,
+  formatFindingMarkdown,
+  formatGeneratedFileItems,
+  formatReportsHeading,
+} from './markdown';
+
+// Bitbucket strips HTML from pull request comments, so sections are plain markdown with
+// bold titles instead of collapsible blocks.
+function renderSections(result: SummaryResult): string[] {
+  const lines: string[] = [];
+  const sections = [
+    { title: 'Purpose', items: result.purpose },
+    { title: 'Change Type', items: result.changeType },
+    { title: 'Risks', items: result.risks.map((item) => formatFindingMarkdown(item)) },
+    { title: 'Suggested Tests', items: result.tests.map((item) => formatFindingMarkdown(item)) },
+  ];
+
+  for (const section of sections) {
+    if (section.items.length === 0) continue;
+    lines.push(`**${section.title}**`);
+    lines.push('');
+    for (const item of section.items) {
+      lines.push(`- ${item}`);
+    }
+    lines.push('');
+  }
+
+  return lines;
+}
+
+function renderGeneratedFiles(generated: GeneratedFile[] = []): string[] {
+  if (generated.length === 0) {
+    return [];
+  }
+  return [
+    `**Generated Files (${generated.length})**`,
+    '',
+    ...formatGeneratedFileItems(generated),
+    '',
+  ];
+}
+
+export async function formatBitbucket(
+  result: SummaryResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  const lines: string[] = [];
+
+  lines.push('## Diff Intent Analysis');
+  lines.push('');
+  lines.push(...renderSections(result));
+  lines.push(...renderGeneratedFiles(options.generated));
+  lines.push(...formatCostFooter(result.meta, options, 'italic'));
+  lines.push(...formatCreditFooter());
+
+  return lines.join('\n');
+}
+
+export async function formatBitbucketAggregate(
+  result: AggregateResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  const lines: string[] = [];
+
+  lines.push('## Diff Intent Analysis');
+  lines.push('');
+  lines.push(...renderSections(result.summary));
+
+  lines.push(`### ${formatReportsHeading(result)} (${result.files.length})`);
+  lines.push('');
+  lines.push(...formatFileTable(result.files, result.kind));
+  lines.push('');
+
+  for (const file of result.files) {
+    lines.push(`### \`${file.path}\` (${formatFileStats(file)})`);
+    lines.push('');
+    if (file.result) {
+      lines.push(...renderSections(file.result));
+    } else {
+      lines.push(`Analysis failed: ${file.error}`);
+      lines.push('');
+    }
+  }
+
+  lines.push(...renderGeneratedFiles(options.generated));
+  lines.push(...formatCostFooter(result.meta, options, 'italic'));
+  lines.push(...formatCreditFooter());
+
+  return lines.join('\n');
+}
+
+export async function formatBitbucketFollowUp(
+  result: FollowUpResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  const lines: string[] = [];
+
+  lines.push(`## ${result.title}`);
+  lines.push('');
+
+  for (const section of result.sections) {
+    if (section.items.length === 0) continue;
+    lines.push(`**${section.title}**`);
+    lines.push('');
+    for (const item of section.items) {
+      lines.push(`- ${item}`);
+    }
+    lines.push('');
+  }
+
+  lines.push(...formatCostFooter(result.meta, options, 'italic'));
+
+  return lines.join('\n');
+}
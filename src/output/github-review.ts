@@ -0,0 +1,101 @@
+import type { ParsedFile } from '../core/diff-parser';
+import { anchorFinding } from '../core/findings';
+import { REVIEW_COMMENT_MARKER, type ReviewComment, type ReviewPayload } from '../core/github';
+import type { Finding, SummaryResult } from '../providers';
+import { formatGitHub, formatGitHubAggregate } from './github';
+import type { AggregateResult, FormatOptions } from './index';
+
+function formatComment(finding: Finding, kind: string): string {
+  const tag = [finding.severity, finding.category].filter(Boolean).join(' · ');
+  return `${REVIEW_COMMENT_MARKER}\n**${kind}${tag ? ` [${tag}]` : ''}:** ${finding.text}\n\n<sub>diff-intent</sub>`;
+}
+
+/**
+ * Move every finding that can be anchored to diff lines into `comments` and return the
+ * result with only the findings that have to stay in the summary body. A finding that
+ * was already turned into a comment (e.g. repeated in the executive summary) is dropped.
+ */
+function extractComments(
+  result: SummaryResult,
+  files: ParsedFile[],
+  comments: ReviewComment[],
+  seen: Set<string>
+): SummaryResult {
+  const extract = (findings: Finding[], kind: string) =>
+    findings.filter((finding) => {
+      const anchor = anchorFinding(finding, files);
+      if (!anchor) return true;
+
+      const key = `${anchor.path}:${anchor.startLine}:${anchor.endLine}:${finding.text}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        comments.push({
+          path: anchor.path,
+          line: anchor.endLine,
+          side: 'RIGHT',
+          ...(anchor.startLine < anchor.endLine
+            ? { start_line: anchor.startLine, start_side: 'RIGHT' as const }
+            : {}),
+          body: formatComment(finding, kind),
+        });
+      }
+      return false;
+    });
+
+  return {
+    ...result,
+    risks: extract(result.risks, 'Risk'),
+    tests: extract(result.tests, 'Suggested test'),
+  };
+}
+
+function withCommentCount(body: string, count: number): string {
+  if (count === 0) return body;
+  return `${body}\n\n<sub>${count} finding(s) posted as inline comments on the changed lines.</sub>`;
+}
+
+/**
+ * Build a pull request review: risks and tests that point at lines in the diff become
+ * inline comments, everything else is rendered in the GitHub summary body.
+ */
+export async function buildGitHubReview(
+  result: SummaryResult,
+  options: FormatOptions = {}
+): Promise<ReviewPayload> {
+  const comments: ReviewComment[] = [];
+  const remaining = extractComments(result, options.files ?? [], comments, new Set());
+  const body = await formatGitHub(remaining, options);
+  return { event: 'COMMENT', body: withCommentCount(body, comments.length), comments };
+}
+
+export async function buildGitHubReviewAggregate(
+  result: AggregateResult,
+  options: FormatOptions = {}
+): Promise<ReviewPayload> {
+  const comments: ReviewComment[] = [];
+  const seen = new Set<string>();
+  const files = options.files ?? [];
+
+  // Per-file findings first, so their more specific wording wins over the summary's
+  const reports = result.files.map((file) =>
+    file.result ? { ...file, result: extractComments(file.result, files, comments, seen) } : file
+  );
+  const summary = extractComments(result.summary, files, comments, seen);
+
+  const body = await formatGitHubAggregate({ ...result, summary, files: reports }, options);
+  return { event: 'COMMENT', body: withCommentCount(body, comments.length), comments };
+}
+
+export async function formatGitHubReview(
+  result: SummaryResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  return JSON.stringify(await buildGitHubReview(result, options), null, 2);
+}
+
+export async function formatGitHubReviewAggregate(
+  result: AggregateResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  return JSON.stringify(await buildGitHubReviewAggregate(result, options), null, 2);
+}
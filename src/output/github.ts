@@ -1,21 +1,37 @@
+import type { GeneratedFile } from '../core/generated';
 import type { SummaryResult } from '../providers';
-import { formatCost, formatTokenCount } from '../utils/tokens';
-import type { FormatOptions } from './index';
+import type { AggregateResult, FollowUpResult, FormatOptions } from './index';
+import {
+  type CostFooterStyle,
+  formatCostFooter,
+  formatCreditFooter,
+  formatFileStats,
+  formatFileTable,
+  formatFindingMarkdown,
+  formatGeneratedFileItems,
+  formatReportsHeading,
+  formatSectionsMarkdown,
+} from './markdown';
 
-export async function formatGitHub(
-  result: SummaryResult,
-  options: FormatOptions = {}
-): Promise<string> {
+// Summary sections as expanded collapsible blocks
+function formatCollapsibleSections(result: SummaryResult): string[] {
   const lines: string[] = [];
+  const sections = [
+    { title: 'Purpose', items: result.purpose },
+    { title: 'Change Type', items: result.changeType },
+    { title: 'Risks', items: result.risks.map((item) => formatFindingMarkdown(item)) },
+    {
+      title: 'Suggested Tests',
+      items: result.tests.map((item) => `[ ] ${formatFindingMarkdown(item)}`),
+    },
+  ];
 
-  lines.push('## Diff Intent Analysis');
-  lines.push('');
-
-  if (result.purpose.length > 0) {
+  for (const section of sections) {
+    if (section.items.length === 0) continue;
     lines.push('<details open>');
-    lines.push('<summary><strong>Purpose</strong></summary>');
+    lines.push(`<summary><strong>${section.title}</strong></summary>`);
     lines.push('');
-    for (const item of result.purpose) {
+    for (const item of section.items) {
       lines.push(`- ${item}`);
     }
     lines.push('');
@@ -23,62 +39,108 @@ export async function formatGitHub(
     lines.push('');
   }
 
-  if (result.changeType.length > 0) {
-    lines.push('<details open>');
-    lines.push('<summary><strong>Change Type</strong></summary>');
-    lines.push('');
-    for (const item of result.changeType) {
-      lines.push(`- ${item}`);
-    }
-    lines.push('');
-    lines.push('</details>');
-    lines.push('');
+  return lines;
+}
+
+// Generated and vendored files in a collapsed block
+function formatGeneratedFilesCollapsible(generated: GeneratedFile[] = []): string[] {
+  if (generated.length === 0) {
+    return [];
   }
+  return [
+    '<details>',
+    `<summary><strong>Generated Files (${generated.length})</strong></summary>`,
+    '',
+    ...formatGeneratedFileItems(generated),
+    '',
+    '</details>',
+    '',
+  ];
+}
 
-  if (result.risks.length > 0) {
-    lines.push('<details open>');
-    lines.push('<summary><strong>Risks</strong></summary>');
+/**
+ * GitHub-flavored markdown for PR comments. GitLab renders the same markup, so its
+ * formatters call these with `<small>` for the cost line.
+ */
+export async function formatGitHub(
+  result: SummaryResult,
+  options: FormatOptions = {},
+  costStyle: CostFooterStyle = 'sub'
+): Promise<string> {
+  const lines: string[] = [];
+
+  lines.push('## Diff Intent Analysis');
+  lines.push('');
+  lines.push(...formatCollapsibleSections(result));
+  lines.push(...formatGeneratedFilesCollapsible(options.generated));
+  lines.push(...formatCostFooter(result.meta, options, costStyle));
+  lines.push(...formatCreditFooter());
+
+  return lines.join('\n');
+}
+
+export async function formatGitHubAggregate(
+  result: AggregateResult,
+  options: FormatOptions = {},
+  costStyle: CostFooterStyle = 'sub'
+): Promise<string> {
+  const lines: string[] = [];
+
+  lines.push('## Diff Intent Analysis');
+  lines.push('');
+  lines.push(...formatCollapsibleSections(result.summary));
+
+  lines.push(`### ${formatReportsHeading(result)} (${result.files.length})`);
+  lines.push('');
+  lines.push(...formatFileTable(result.files, result.kind));
+  lines.push('');
+
+  for (const file of result.files) {
+    const risks = file.result ? ` · ${file.result.risks.length} risk(s)` : ' · failed';
+    lines.push('<details>');
+    lines.push(`<summary><code>${file.path}</code> (${formatFileStats(file)})${risks}</summary>`);
     lines.push('');
-    for (const item of result.risks) {
-      lines.push(`- ${item}`);
+    if (file.result) {
+      lines.push(...formatSectionsMarkdown(file.result, '####'));
+    } else {
+      lines.push(`Analysis failed: ${file.error}`);
+      lines.push('');
     }
-    lines.push('');
     lines.push('</details>');
     lines.push('');
   }
 
-  if (result.tests.length > 0) {
+  lines.push(...formatGeneratedFilesCollapsible(options.generated));
+  lines.push(...formatCostFooter(result.meta, options, costStyle));
+  lines.push(...formatCreditFooter());
+
+  return lines.join('\n');
+}
+
+export async function formatGitHubFollowUp(
+  result: FollowUpResult,
+  options: FormatOptions = {},
+  costStyle: CostFooterStyle = 'sub'
+): Promise<string> {
+  const lines: string[] = [];
+
+  lines.push(`## ${result.title}`);
+  lines.push('');
+
+  for (const section of result.sections) {
+    if (section.items.length === 0) continue;
     lines.push('<details open>');
-    lines.push('<summary><strong>Suggested Tests</strong></summary>');
+    lines.push(`<summary><strong>${section.title}</strong></summary>`);
     lines.push('');
-    for (const item of result.tests) {
-      lines.push(`- [ ] ${item}`);
+    for (const item of section.items) {
+      lines.push(`- ${item}`);
     }
     lines.push('');
     lines.push('</details>');
     lines.push('');
   }
 
-  if (options.showCost && result.meta) {
-    lines.push('---');
-    lines.push('<sub>');
-    const parts: string[] = [];
-    if (result.meta.tokens) {
-      parts.push(`Tokens: ${formatTokenCount(result.meta.tokens)}`);
-    }
-    if (result.meta.cost !== undefined) {
-      parts.push(`Cost: ${formatCost(result.meta.cost)}`);
-    }
-    if (options.provider || result.meta.model) {
-      parts.push(`Provider: ${options.provider || result.meta.model}`);
-    }
-    lines.push(parts.join(' | '));
-    lines.push('</sub>');
-  }
-
-  lines.push('');
-  lines.push('---');
-  lines.push('*Generated by [diff-intent](https://github.com/SyedSibtainRazvi/diff-intent)*');
+  lines.push(...formatCostFooter(result.meta, options, costStyle));
 
   return lines.join('\n');
 }
@@ -0,0 +1,28 @@
+import type { SummaryResult } from '../providers';
+import { formatGitHub, formatGitHubAggregate, formatGitHubFollowUp } from './github';
+import type { AggregateResult, FollowUpResult, FormatOptions } from './index';
+
+/**
+ * GitLab-flavored markdown for merge request notes. GitLab renders the same collapsible
+ * sections and task list items as GitHub, so only the cost line differs.
+ */
+export async function formatGitLab(
+  result: SummaryResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  return formatGitHub(result, options, 'small');
+}
+
+export async function formatGitLabAggregate(
+  result: AggregateResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  return formatGitHubAggregate(result, options, 'small');
+}
+
+export async function formatGitLabFollowUp(
+  result: FollowUpResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  return formatGitHubFollowUp(result, options, 'small');
+}
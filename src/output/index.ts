@@ -1,18 +1,62 @@
 import type { OutputFormat } from '../config';
+import type { ParsedFile } from '../core/diff-parser';
+import type { GeneratedFile } from '../core/generated';
 import type { SummaryResult } from '../providers';
-import { formatGitHub } from './github';
-import { formatJSON } from './json';
-import { formatMarkdown } from './markdown';
-import { formatTerminal } from './terminal';
+import { formatBitbucket, formatBitbucketAggregate, formatBitbucketFollowUp } from './bitbucket';
+import { formatGitHub, formatGitHubAggregate, formatGitHubFollowUp } from './github';
+import { formatGitHubReview, formatGitHubReviewAggregate } from './github-review';
+import { formatGitLab, formatGitLabAggregate, formatGitLabFollowUp } from './gitlab';
+import { formatJSON, formatJSONAggregate, formatJSONFollowUp } from './json';
+import { formatMarkdown, formatMarkdownAggregate, formatMarkdownFollowUp } from './markdown';
+import { formatSarif, formatSarifAggregate } from './sarif';
+import { formatTerminal, formatTerminalAggregate, formatTerminalFollowUp } from './terminal';
 
 export interface FormatOptions {
   colors?: boolean;
   showCost?: boolean;
   provider?: string;
+  // Parsed diff, used by formats that anchor findings to diff lines
+  files?: ParsedFile[];
+  // Generated and vendored files that were stubbed out of the prompt, listed apart
+  generated?: GeneratedFile[];
+}
+
+// Answer to an interactive follow-up question, e.g. security or performance analysis
+export interface FollowUpResult {
+  title: string;
+  sections: {
+    title: string;
+    items: string[];
+  }[];
+  meta?: SummaryResult['meta'];
+}
+
+// One file of a per-file analysis; `error` is set instead of `result` when it failed
+export interface FileReport {
+  path: string;
+  additions: number;
+  deletions: number;
+  result?: SummaryResult;
+  error?: string;
+}
+
+// Per-file analysis combined into one report: an executive summary of the whole change,
+// followed by every file's own analysis. `meta` totals all calls that produced it.
+// A per-commit analysis uses the same report with one entry per commit in `files`.
+export interface AggregateResult {
+  summary: SummaryResult;
+  files: FileReport[];
+  kind?: 'files' | 'commits'; // what the entries in `files` are; files when unset
+  meta?: SummaryResult['meta'];
 }
 
 export type OutputFormatter = (result: SummaryResult, options?: FormatOptions) => Promise<string>;
 
+export type FollowUpFormatter = (
+  result: FollowUpResult,
+  options?: FormatOptions
+) => Promise<string>;
+
 export function getFormatter(format: OutputFormat): OutputFormatter {
   switch (format) {
     case 'terminal':
@@ -23,12 +67,85 @@ export function getFormatter(format: OutputFormat): OutputFormatter {
       return formatJSON;
     case 'github':
       return formatGitHub;
+    case 'github-review':
+      return formatGitHubReview;
+    case 'gitlab':
+      return formatGitLab;
+    case 'bitbucket':
+      return formatBitbucket;
+    case 'sarif':
+      return formatSarif;
     default:
       return formatTerminal;
   }
 }
 
-export { formatTerminal } from './terminal';
-export { formatMarkdown } from './markdown';
-export { formatJSON } from './json';
-export { formatGitHub } from './github';
+export type AggregateFormatter = (
+  result: AggregateResult,
+  options?: FormatOptions
+) => Promise<string>;
+
+export function getAggregateFormatter(format: OutputFormat): AggregateFormatter {
+  switch (format) {
+    case 'terminal':
+      return formatTerminalAggregate;
+    case 'markdown':
+      return formatMarkdownAggregate;
+    case 'json':
+      return formatJSONAggregate;
+    case 'github':
+      return formatGitHubAggregate;
+    case 'github-review':
+      return formatGitHubReviewAggregate;
+    case 'gitlab':
+      return formatGitLabAggregate;
+    case 'bitbucket':
+      return formatBitbucketAggregate;
+    case 'sarif':
+      return formatSarifAggregate;
+    default:
+      return formatTerminalAggregate;
+  }
+}
+
+export function getFollowUpFormatter(format: OutputFormat): FollowUpFormatter {
+  switch (format) {
+    case 'terminal':
+      return formatTerminalFollowUp;
+    case 'markdown':
+      return formatMarkdownFollowUp;
+    case 'json':
+    case 'sarif':
+      return formatJSONFollowUp;
+    case 'github':
+    case 'github-review':
+      return formatGitHubFollowUp;
+    case 'gitlab':
+      return formatGitLabFollowUp;
+    case 'bitbucket':
+      return formatBitbucketFollowUp;
+    default:
+      return formatTerminalFollowUp;
+  }
+}
+
+export {
+  formatTerminal,
+  formatTerminalAggregate,
+  formatTerminalFollowUp,
+  createTerminalStream,
+  TerminalStream,
+} from './terminal';
+export { formatMarkdown, formatMarkdownAggregate, formatMarkdownFollowUp } from './markdown';
+export { formatJSON, formatJSONAggregate, formatJSONFollowUp } from './json';
+export { formatGitHub, formatGitHubAggregate, formatGitHubFollowUp } from './github';
+export {
+  buildGitHubReview,
+  buildGitHubReviewAggregate,
+  formatGitHubReview,
+  formatGitHubReviewAggregate,
+} from './github-review';
+export { formatGitLab, formatGitLabAggregate, formatGitLabFollowUp } from './gitlab';
+export { formatBitbucket, formatBitbucketAggregate, formatBitbucketFollowUp } from './bitbucket';
+export { formatSarif, formatSarifAggregate } from './sarif';
+export { type RiskReport, formatCheckstyleReport, formatJUnitReport } from './reports';
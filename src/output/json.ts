@@ -1,15 +1,76 @@
-import type { SummaryResult } from '../providers';
-import type { FormatOptions } from './index';
+import { hasFindingDetails } from '../core/findings';
+import type { Finding, SummaryResult } from '../providers';
+import type { AggregateResult, FollowUpResult, FormatOptions } from './index';
+
+// Findings without any structured details stay plain strings, as in the original schema
+function serializeFindings(findings: Finding[]): (string | Finding)[] {
+  return findings.map((f) => (hasFindingDetails(f) ? f : f.text));
+}
+
+function serializeResult(result: SummaryResult): Record<string, unknown> {
+  return {
+    purpose: result.purpose,
+    changeType: result.changeType,
+    risks: serializeFindings(result.risks),
+    tests: serializeFindings(result.tests),
+  };
+}
 
 export async function formatJSON(
   result: SummaryResult,
   options: FormatOptions = {}
+): Promise<string> {
+  const output = serializeResult(result);
+  if (options.generated?.length) {
+    output.generated = options.generated;
+  }
+
+  if (options.showCost && result.meta) {
+    output.meta = {
+      tokens: result.meta.tokens,
+      cost: result.meta.cost,
+      provider: options.provider || result.meta.model,
+    };
+  }
+
+  return JSON.stringify(output, null, 2);
+}
+
+export async function formatJSONAggregate(
+  result: AggregateResult,
+  options: FormatOptions = {}
 ): Promise<string> {
   const output: Record<string, unknown> = {
-    purpose: result.purpose,
-    changeType: result.changeType,
-    risks: result.risks,
-    tests: result.tests,
+    summary: serializeResult(result.summary),
+    [result.kind === 'commits' ? 'commits' : 'files']: result.files.map((file) => ({
+      path: file.path,
+      additions: file.additions,
+      deletions: file.deletions,
+      ...(file.result ? serializeResult(file.result) : { error: file.error }),
+    })),
+  };
+  if (options.generated?.length) {
+    output.generated = options.generated;
+  }
+
+  if (options.showCost && result.meta) {
+    output.meta = {
+      tokens: result.meta.tokens,
+      cost: result.meta.cost,
+      provider: options.provider || result.meta.model,
+    };
+  }
+
+  return JSON.stringify(output, null, 2);
+}
+
+export async function formatJSONFollowUp(
+  result: FollowUpResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  const output: Record<string, unknown> = {
+    title: result.title,
+    sections: result.sections,
   };
 
   if (options.showCost && result.meta) {
@@ -1,18 +1,27 @@
-import type { SummaryResult } from '../providers';
+import { formatLocation } from '../core/findings';
+import type { GeneratedFile } from '../core/generated';
+import type { Finding, SummaryResult } from '../providers';
 import { formatCost, formatTokenCount } from '../utils/tokens';
-import type { FormatOptions } from './index';
+import type { AggregateResult, FileReport, FollowUpResult, FormatOptions } from './index';
 
-export async function formatMarkdown(
-  result: SummaryResult,
-  options: FormatOptions = {}
-): Promise<string> {
-  const lines: string[] = [];
+/**
+ * Render a finding as inline markdown: optional severity/category tag, the text, and
+ * the file location in code style.
+ */
+export function formatFindingMarkdown(finding: Finding): string {
+  const tag = [finding.severity, finding.category].filter(Boolean).join(' · ');
+  const location = formatLocation(finding);
+  return [tag ? `**[${tag}]**` : '', finding.text, location ? `(\`${location}\`)` : '']
+    .filter(Boolean)
+    .join(' ');
+}
 
-  lines.push('## Diff Intent Summary');
-  lines.push('');
+// Summary sections under headings of the given level, e.g. '###'
+export function formatSectionsMarkdown(result: SummaryResult, heading: string): string[] {
+  const lines: string[] = [];
 
   if (result.purpose.length > 0) {
-    lines.push('### Purpose');
+    lines.push(`${heading} Purpose`);
     for (const item of result.purpose) {
       lines.push(`- ${item}`);
     }
@@ -20,7 +29,7 @@ export async function formatMarkdown(
   }
 
   if (result.changeType.length > 0) {
-    lines.push('### Change Type');
+    lines.push(`${heading} Change Type`);
     for (const item of result.changeType) {
       lines.push(`- ${item}`);
     }
@@ -28,35 +37,194 @@ export async function formatMarkdown(
   }
 
   if (result.risks.length > 0) {
-    lines.push('### What Could Break');
+    lines.push(`${heading} What Could Break`);
     for (const item of result.risks) {
-      lines.push(`- ${item}`);
+      lines.push(`- ${formatFindingMarkdown(item)}`);
     }
     lines.push('');
   }
 
   if (result.tests.length > 0) {
-    lines.push('### Suggested Tests');
+    lines.push(`${heading} Suggested Tests`);
     for (const item of result.tests) {
-      lines.push(`- ${item}`);
+      lines.push(`- ${formatFindingMarkdown(item)}`);
     }
     lines.push('');
   }
 
-  if (options.showCost && result.meta) {
-    lines.push('---');
-    const parts: string[] = [];
-    if (result.meta.tokens) {
-      parts.push(`**Tokens:** ${formatTokenCount(result.meta.tokens)}`);
-    }
-    if (result.meta.cost !== undefined) {
-      parts.push(`**Cost:** ${formatCost(result.meta.cost)}`);
+  return lines;
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+export function formatFileStats(file: Pick<FileReport, 'additions' | 'deletions'>): string {
+  return `+${file.additions} / -${file.deletions}`;
+}
+
+// Heading of the list of files, or of commits in a per-commit report
+export function formatReportsHeading(result: AggregateResult): string {
+  return result.kind === 'commits' ? 'Commits' : 'Files';
+}
+
+/**
+ * Markdown table with one row per file: path, change type, risk count and line stats.
+ * Shared by the markdown and GitHub aggregate reports.
+ */
+export function formatFileTable(files: FileReport[], kind: AggregateResult['kind']): string[] {
+  const column = kind === 'commits' ? 'Commit' : 'File';
+  const lines = [`| ${column} | Change Type | Risks | +/- |`, '| --- | --- | --- | --- |'];
+  for (const file of files) {
+    const changeType = file.result
+      ? escapeTableCell(file.result.changeType[0] ?? '-')
+      : 'analysis failed';
+    const risks = file.result ? String(file.result.risks.length) : '-';
+    lines.push(
+      `| \`${escapeTableCell(file.path)}\` | ${changeType} | ${risks} | ${formatFileStats(file)} |`
+    );
+  }
+  return lines;
+}
+
+/**
+ * One list item per generated or vendored file: path, why it was left out of the prompt and
+ * its line stats. Shared by the markdown-based formats, which give it their own heading.
+ */
+export function formatGeneratedFileItems(generated: GeneratedFile[]): string[] {
+  return generated.map(
+    (file) => `- \`${file.path}\` (${file.kind}: ${file.reason}, ${formatFileStats(file)})`
+  );
+}
+
+function formatGeneratedFiles(generated: GeneratedFile[] = []): string[] {
+  if (generated.length === 0) {
+    return [];
+  }
+  return [
+    `### Generated Files (${generated.length})`,
+    '',
+    ...formatGeneratedFileItems(generated),
+    '',
+  ];
+}
+
+export async function formatMarkdown(
+  result: SummaryResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  const lines: string[] = [];
+
+  lines.push('## Diff Intent Summary');
+  lines.push('');
+  lines.push(...formatSectionsMarkdown(result, '###'));
+  lines.push(...formatGeneratedFiles(options.generated));
+  lines.push(...formatCostFooter(result.meta, options));
+
+  return lines.join('\n');
+}
+
+export async function formatMarkdownAggregate(
+  result: AggregateResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  const lines: string[] = [];
+
+  lines.push('## Diff Intent Summary');
+  lines.push('');
+  lines.push(...formatSectionsMarkdown(result.summary, '###'));
+
+  lines.push(`### ${formatReportsHeading(result)}`);
+  lines.push('');
+  lines.push(...formatFileTable(result.files, result.kind));
+  lines.push('');
+
+  for (const file of result.files) {
+    lines.push('<details>');
+    lines.push(`<summary><code>${file.path}</code> (${formatFileStats(file)})</summary>`);
+    lines.push('');
+    if (file.result) {
+      lines.push(...formatSectionsMarkdown(file.result, '####'));
+    } else {
+      lines.push(`Analysis failed: ${file.error}`);
+      lines.push('');
     }
-    if (options.provider || result.meta.model) {
-      parts.push(`**Provider:** ${options.provider || result.meta.model}`);
+    lines.push('</details>');
+    lines.push('');
+  }
+
+  lines.push(...formatGeneratedFiles(options.generated));
+  lines.push(...formatCostFooter(result.meta, options));
+
+  return lines.join('\n');
+}
+
+export async function formatMarkdownFollowUp(
+  result: FollowUpResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  const lines: string[] = [];
+
+  lines.push(`## ${result.title}`);
+  lines.push('');
+
+  for (const section of result.sections) {
+    if (section.items.length === 0) continue;
+    lines.push(`### ${section.title}`);
+    for (const item of section.items) {
+      lines.push(`- ${item}`);
     }
-    lines.push(parts.join(' | '));
+    lines.push('');
   }
 
+  lines.push(...formatCostFooter(result.meta, options));
+
   return lines.join('\n');
 }
+
+// How the token and cost line is set: bold labels in plain markdown, or in small print
+// (<sub>, <small> or italics) at the end of a PR or MR comment
+export type CostFooterStyle = 'markdown' | 'sub' | 'small' | 'italic';
+
+export function formatCostFooter(
+  meta: SummaryResult['meta'],
+  options: FormatOptions,
+  style: CostFooterStyle = 'markdown'
+): string[] {
+  if (!options.showCost || !meta) {
+    return [];
+  }
+
+  const label = (name: string) => (style === 'markdown' ? `**${name}:**` : `${name}:`);
+  const parts: string[] = [];
+  if (meta.tokens) {
+    parts.push(`${label('Tokens')} ${formatTokenCount(meta.tokens)}`);
+  }
+  if (meta.cost !== undefined) {
+    parts.push(`${label('Cost')} ${formatCost(meta.cost)}`);
+  }
+  if (options.provider || meta.model) {
+    parts.push(`${label('Provider')} ${options.provider || meta.model}`);
+  }
+
+  const line = parts.join(' | ');
+  switch (style) {
+    case 'sub':
+      return ['---', '<sub>', line, '</sub>'];
+    case 'small':
+      return ['---', `<small>${line}</small>`];
+    case 'italic':
+      return ['---', `*${line}*`];
+    default:
+      return ['---', line];
+  }
+}
+
+// Credit line closing a PR or MR comment
+export function formatCreditFooter(): string[] {
+  return [
+    '',
+    '---',
+    '*Generated by [diff-intent](https://github.com/SyedSibtainRazvi/diff-intent)*',
+  ];
+}
@@ -0,0 +1,140 @@
+import type { ParsedFile } from '../core/diff-parser';
+import { formatLocation, matchesFailOn, resolveFindingLocation } from '../core/findings';
+import type { Finding, Severity } from '../providers';
+
+// Risks of one run, as written to the CI report files
+export interface RiskReport {
+  risks: Finding[];
+  files: ParsedFile[];
+  failOn: string[];
+  errors: { path: string; error: string }[]; // files that could not be analyzed
+}
+
+const CHECKSTYLE_SEVERITIES: Record<Severity, string> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'info',
+};
+
+// XML 1.0 allows no control characters other than tab, line feed and carriage return
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x9 || code === 0xa || code === 0xd;
+}
+
+function escapeXml(value: string): string {
+  return [...value]
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function attributes(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join('');
+}
+
+function describeRisk(risk: Finding): string {
+  const tag = [risk.severity, risk.category].filter(Boolean).join(' ');
+  return tag ? `[${tag}] ${risk.text}` : risk.text;
+}
+
+/**
+ * JUnit XML with one test case per risk. Risks matching `failOn` are failures and files
+ * that could not be analyzed are errors, so CI test report views (Jenkins, GitLab) show
+ * what blocked the pipeline next to the risks that did not.
+ */
+export function formatJUnitReport(report: RiskReport): string {
+  const cases: string[] = [];
+  let failures = 0;
+
+  for (const risk of report.risks) {
+    const location = resolveFindingLocation(risk, report.files);
+    const open = `    <testcase${attributes({
+      classname: location?.path ?? 'diff-intent',
+      name: describeRisk(risk),
+      file: location?.path,
+      line: location?.startLine,
+    })}`;
+
+    if (!matchesFailOn(risk, report.failOn)) {
+      cases.push(`${open} />`);
+      continue;
+    }
+
+    failures++;
+    const details = [formatLocation(risk), risk.text].filter(Boolean).join('\n');
+    cases.push(`${open}>`);
+    cases.push(
+      `      <failure${attributes({ message: risk.text, type: risk.severity ?? risk.category })}>${escapeXml(details)}</failure>`
+    );
+    cases.push('    </testcase>');
+  }
+
+  for (const file of report.errors) {
+    cases.push(`    <testcase${attributes({ classname: file.path, name: 'analysis' })}>`);
+    cases.push(`      <error${attributes({ message: file.error })} />`);
+    cases.push('    </testcase>');
+  }
+
+  if (cases.length === 0) {
+    cases.push(
+      `    <testcase${attributes({ classname: 'diff-intent', name: 'No risks found' })} />`
+    );
+  }
+
+  const counts = attributes({
+    tests: report.risks.length + report.errors.length || 1,
+    failures,
+    errors: report.errors.length,
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="diff-intent"${counts}>`,
+    `  <testsuite name="diff-intent"${counts}>`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Checkstyle XML with one error per risk, grouped by file, with the severity mapped to
+ * checkstyle's error/warning/info levels.
+ */
+export function formatCheckstyleReport(report: RiskReport): string {
+  const byFile = new Map<string, string[]>();
+
+  for (const risk of report.risks) {
+    const location = resolveFindingLocation(risk, report.files);
+    const path = location?.path ?? risk.file ?? '';
+    const errors = byFile.get(path) ?? [];
+    errors.push(
+      `    <error${attributes({
+        line: location?.startLine,
+        severity: risk.severity ? CHECKSTYLE_SEVERITIES[risk.severity] : 'warning',
+        message: risk.text,
+        source: `diff-intent.${risk.category || 'general'}`,
+      })} />`
+    );
+    byFile.set(path, errors);
+  }
+
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<checkstyle version="4.3">'];
+  for (const [path, errors] of byFile) {
+    lines.push(`  <file${attributes({ name: path })}>`);
+    lines.push(...errors);
+    lines.push('  </file>');
+  }
+  lines.push('</checkstyle>', '');
+
+  return lines.join('\n');
+}
@@ -0,0 +1,125 @@
+import type { ParsedFile } from '../core/diff-parser';
+import { type FindingLocation, resolveFindingLocation } from '../core/findings';
+import type { Finding, Severity, SummaryResult } from '../providers';
+import type { AggregateResult, FormatOptions } from './index';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { version: VERSION } = require('../../package.json');
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://github.com/SyedSibtainRazvi/diff-intent';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+const SEVERITY_LEVELS: Record<Severity, SarifLevel> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+};
+
+// Rule for risks without a category
+const GENERAL_CATEGORY = 'general';
+
+interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    region: { startLine: number; endLine: number };
+  };
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  properties?: { severity?: Severity; scope?: 'file' | 'change' };
+}
+
+function ruleId(category: string): string {
+  return `diff-intent/${category}`;
+}
+
+function toLocation(location: FindingLocation): SarifLocation {
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: location.path, uriBaseId: '%SRCROOT%' },
+      region: { startLine: location.startLine, endLine: location.endLine },
+    },
+  };
+}
+
+function buildSarif(risks: Finding[], files: ParsedFile[]): string {
+  const categories: string[] = [];
+  const results: SarifResult[] = [];
+  const seen = new Set<string>();
+
+  for (const risk of risks) {
+    const resolved = resolveFindingLocation(risk, files);
+    const location = resolved ? toLocation(resolved) : null;
+    const key = `${risk.text}:${JSON.stringify(location)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const category = risk.category || GENERAL_CATEGORY;
+    if (!categories.includes(category)) {
+      categories.push(category);
+    }
+
+    const properties = {
+      ...(risk.severity ? { severity: risk.severity } : {}),
+      ...(resolved?.scope ? { scope: resolved.scope } : {}),
+    };
+    results.push({
+      ruleId: ruleId(category),
+      ruleIndex: categories.indexOf(category),
+      level: risk.severity ? SEVERITY_LEVELS[risk.severity] : 'warning',
+      message: { text: risk.text },
+      locations: location ? [location] : [],
+      ...(Object.keys(properties).length > 0 ? { properties } : {}),
+    });
+  }
+
+  const sarif = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'diff-intent',
+            version: VERSION,
+            informationUri: INFORMATION_URI,
+            rules: categories.map((category) => ({
+              id: ruleId(category),
+              name: category,
+              shortDescription: { text: `Potential ${category} risk in the change` },
+              defaultConfiguration: { level: 'warning' },
+              properties: { tags: [category] },
+            })),
+          },
+        },
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2);
+}
+
+export async function formatSarif(
+  result: SummaryResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  return buildSarif(result.risks, options.files ?? []);
+}
+
+// Risks from every file plus the executive summary; exact duplicates are reported once
+export async function formatSarifAggregate(
+  result: AggregateResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  const risks = [...result.files.flatMap((f) => f.result?.risks ?? []), ...result.summary.risks];
+  return buildSarif(risks, options.files ?? []);
+}
@@ -1,76 +1,289 @@
-import type { SummaryResult } from '../providers';
-import { createBoxen, createColors } from '../utils/colors';
+import { formatLocation, normalizeFindings, validateFindingLocations } from '../core/findings';
+import type { GeneratedFile } from '../core/generated';
+import type { Finding, SummaryResult } from '../providers';
+import { type Colors, createBoxen, createColors } from '../utils/colors';
+import { extractCompletedArrays } from '../utils/partial-json';
 import { formatCost, formatTokenCount } from '../utils/tokens';
-import type { FormatOptions } from './index';
+import type { AggregateResult, FollowUpResult, FormatOptions } from './index';
 
-export async function formatTerminal(
-  result: SummaryResult,
-  options: FormatOptions = {}
-): Promise<string> {
-  const colors = await createColors(options.colors ?? true);
-  const lines: string[] = [];
+type SectionKey = 'purpose' | 'changeType' | 'risks' | 'tests';
+
+// Sections in display order
+const SECTIONS: { key: SectionKey; title: string; color: keyof Colors; findings?: boolean }[] = [
+  { key: 'purpose', title: 'Purpose', color: 'heading' },
+  { key: 'changeType', title: 'Change Type', color: 'heading' },
+  { key: 'risks', title: 'Risks', color: 'warning', findings: true },
+  { key: 'tests', title: 'Suggested Tests', color: 'success', findings: true },
+];
+
+function formatFinding(finding: Finding, colors: Colors): string {
+  const parts: string[] = [];
+  if (finding.severity) {
+    const severityColor =
+      finding.severity === 'critical' || finding.severity === 'high'
+        ? colors.error
+        : finding.severity === 'medium'
+          ? colors.warning
+          : colors.dim;
+    parts.push(severityColor(`[${finding.severity}]`));
+  }
+  if (finding.category) {
+    parts.push(colors.dim(`(${finding.category})`));
+  }
+  parts.push(finding.text);
+
+  const location = formatLocation(finding);
+  if (location) {
+    parts.push(colors.file(location));
+  }
+  return parts.join(' ');
+}
 
+async function renderHeader(): Promise<string[]> {
   const header = await createBoxen('Diff Intent Analysis', {
     title: undefined,
     padding: 0,
     borderColor: 'cyan',
   });
-  lines.push(header);
+  return [header, ''];
+}
+
+function renderSection(
+  section: (typeof SECTIONS)[number],
+  items: unknown[],
+  colors: Colors
+): string[] {
+  // Streamed sections arrive as raw model output, so findings are normalized here too
+  const texts = section.findings
+    ? normalizeFindings(items).map((f) => formatFinding(f, colors))
+    : items.map(String);
+  if (texts.length === 0) {
+    return [];
+  }
+
+  const lines: string[] = [colors[section.color](`  ${section.title}`)];
+  for (let i = 0; i < texts.length; i++) {
+    const prefix = i === texts.length - 1 ? '└─' : '├─';
+    lines.push(colors.dim(`  ${prefix} `) + texts[i]);
+  }
   lines.push('');
+  return lines;
+}
 
-  if (result.purpose.length > 0) {
-    lines.push(colors.heading('  Purpose'));
-    for (let i = 0; i < result.purpose.length; i++) {
-      const prefix = i === result.purpose.length - 1 ? '└─' : '├─';
-      lines.push(colors.dim(`  ${prefix} `) + result.purpose[i]);
-    }
-    lines.push('');
+// Generated and vendored files, which were not analyzed: path, line stats and reason
+function renderGeneratedFiles(generated: GeneratedFile[] | undefined, colors: Colors): string[] {
+  if (!generated || generated.length === 0) {
+    return [];
   }
 
-  if (result.changeType.length > 0) {
-    lines.push(colors.heading('  Change Type'));
-    for (let i = 0; i < result.changeType.length; i++) {
-      const prefix = i === result.changeType.length - 1 ? '└─' : '├─';
-      lines.push(colors.dim(`  ${prefix} `) + result.changeType[i]);
-    }
-    lines.push('');
+  const width = Math.max(...generated.map((f) => f.path.length));
+  const lines: string[] = [colors.heading(`  Generated Files (${generated.length})`)];
+  for (let i = 0; i < generated.length; i++) {
+    const file = generated[i];
+    const prefix = i === generated.length - 1 ? '└─' : '├─';
+    const stats = `${colors.success(`+${file.additions}`)} ${colors.error(`-${file.deletions}`)}`;
+    lines.push(
+      `${colors.dim(`  ${prefix} `)}${colors.file(file.path.padEnd(width))}  ${stats}  ${colors.dim(`${file.kind}: ${file.reason}`)}`
+    );
   }
+  lines.push('');
+  return lines;
+}
 
-  if (result.risks.length > 0) {
-    lines.push(colors.warning('  Risks'));
-    for (let i = 0; i < result.risks.length; i++) {
-      const prefix = i === result.risks.length - 1 ? '└─' : '├─';
-      lines.push(colors.dim(`  ${prefix} `) + result.risks[i]);
-    }
+function renderFooter(
+  result: { meta?: SummaryResult['meta'] },
+  options: FormatOptions,
+  colors: Colors
+): string[] {
+  if (!options.showCost || !result.meta) {
+    return [];
+  }
+
+  const lines: string[] = [colors.dim('─'.repeat(55))];
+
+  const parts: string[] = [];
+  if (result.meta.tokens) {
+    parts.push(`Tokens: ${formatTokenCount(result.meta.tokens)}`);
+  }
+  if (result.meta.cost !== undefined) {
+    parts.push(`Cost: ${formatCost(result.meta.cost)}`);
+  }
+  if (options.provider || result.meta.model) {
+    parts.push(`Provider: ${options.provider || result.meta.model}`);
+  }
+
+  lines.push(colors.dim(`  ${parts.join(' | ')}`));
+  return lines;
+}
+
+export async function formatTerminal(
+  result: SummaryResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  const colors = await createColors(options.colors ?? true);
+  const lines: string[] = await renderHeader();
+
+  for (const section of SECTIONS) {
+    lines.push(...renderSection(section, result[section.key], colors));
+  }
+
+  lines.push(...renderGeneratedFiles(options.generated, colors));
+  lines.push(...renderFooter(result, options, colors));
+
+  return lines.join('\n');
+}
+
+export async function formatTerminalAggregate(
+  result: AggregateResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  const colors = await createColors(options.colors ?? true);
+  const lines: string[] = await renderHeader();
+
+  for (const section of SECTIONS) {
+    lines.push(...renderSection(section, result.summary[section.key], colors));
+  }
+
+  // One line per file: path, line stats, change type and risk count
+  const width = Math.max(...result.files.map((f) => f.path.length));
+  const heading = result.kind === 'commits' ? 'Commits' : 'Files';
+  lines.push(colors.heading(`  ${heading} (${result.files.length})`));
+  for (let i = 0; i < result.files.length; i++) {
+    const file = result.files[i];
+    const prefix = i === result.files.length - 1 ? '└─' : '├─';
+    const stats = `${colors.success(`+${file.additions}`)} ${colors.error(`-${file.deletions}`)}`;
+    const details = file.result
+      ? `${file.result.changeType[0] ?? ''} ${colors.dim(`(${file.result.risks.length} risks)`)}`
+      : colors.error('analysis failed');
+    lines.push(
+      `${colors.dim(`  ${prefix} `)}${colors.file(file.path.padEnd(width))}  ${stats}  ${details}`
+    );
+  }
+  lines.push('');
+
+  for (const file of result.files) {
+    lines.push(colors.heading(`--- ${file.path} ---`));
     lines.push('');
+    if (file.result) {
+      for (const section of SECTIONS) {
+        lines.push(...renderSection(section, file.result[section.key], colors));
+      }
+    } else {
+      lines.push(colors.error(`  Analysis failed: ${file.error}`));
+      lines.push('');
+    }
   }
 
-  if (result.tests.length > 0) {
-    lines.push(colors.success('  Suggested Tests'));
-    for (let i = 0; i < result.tests.length; i++) {
-      const prefix = i === result.tests.length - 1 ? '└─' : '├─';
-      lines.push(colors.dim(`  ${prefix} `) + result.tests[i]);
+  lines.push(...renderGeneratedFiles(options.generated, colors));
+  lines.push(...renderFooter(result, options, colors));
+
+  return lines.join('\n');
+}
+
+export async function formatTerminalFollowUp(
+  result: FollowUpResult,
+  options: FormatOptions = {}
+): Promise<string> {
+  const colors = await createColors(options.colors ?? true);
+  const lines: string[] = [colors.heading(`  ${result.title}`), ''];
+
+  for (const section of result.sections) {
+    if (section.items.length === 0) continue;
+    lines.push(colors.info(`  ${section.title}`));
+    for (let i = 0; i < section.items.length; i++) {
+      const prefix = i === section.items.length - 1 ? '└─' : '├─';
+      lines.push(colors.dim(`  ${prefix} `) + section.items[i]);
     }
     lines.push('');
   }
 
-  if (options.showCost && result.meta) {
-    const separator = colors.dim('─'.repeat(55));
-    lines.push(separator);
+  lines.push(...renderFooter(result, options, colors));
 
-    const parts: string[] = [];
-    if (result.meta.tokens) {
-      parts.push(`Tokens: ${formatTokenCount(result.meta.tokens)}`);
-    }
-    if (result.meta.cost !== undefined) {
-      parts.push(`Cost: ${formatCost(result.meta.cost)}`);
-    }
-    if (options.provider || result.meta.model) {
-      parts.push(`Provider: ${options.provider || result.meta.model}`);
+  return lines.join('\n');
+}
+
+export interface TerminalStream {
+  /** Feed a streamed text delta; completed sections are written to stdout immediately. */
+  push: (text: string) => void;
+  /**
+   * Return whatever has not been written yet (remaining sections and the cost footer), or
+   * the whole result when it no longer matches what was streamed.
+   */
+  finish: (result: SummaryResult) => Promise<string>;
+}
+
+/**
+ * Incremental terminal renderer for streamed responses. Each section is printed as soon
+ * as its JSON array is complete, in the same layout formatTerminal produces. Finding
+ * locations are checked against `options.files` before they are shown, like the final
+ * result's are.
+ */
+export async function createTerminalStream(options: FormatOptions = {}): Promise<TerminalStream> {
+  const colors = await createColors(options.colors ?? true);
+  const header = await renderHeader();
+  const keys = SECTIONS.map((s) => s.key);
+
+  let buffer = '';
+  let started = false;
+  let nextSection = 0;
+  const streamed: string[][] = [];
+
+  const write = (lines: string[]) => {
+    if (lines.length > 0) {
+      process.stdout.write(`${lines.join('\n')}\n`);
     }
+  };
 
-    lines.push(colors.dim(`  ${parts.join(' | ')}`));
-  }
+  return {
+    push: (text: string) => {
+      if (!started) {
+        started = true;
+        write(header);
+      }
 
-  return lines.join('\n');
+      buffer += text;
+      const completed = extractCompletedArrays(buffer, keys);
+      while (nextSection < SECTIONS.length && completed[SECTIONS[nextSection].key]) {
+        const section = SECTIONS[nextSection];
+        const items =
+          section.findings && options.files
+            ? validateFindingLocations(normalizeFindings(completed[section.key]), options.files)
+            : completed[section.key];
+        const lines = renderSection(section, items, colors);
+        write(lines);
+        streamed.push(lines);
+        nextSection++;
+      }
+    },
+
+    finish: async (result: SummaryResult) => {
+      if (!started) {
+        return formatTerminal(result, options);
+      }
+
+      // A malformed response is repaired by a second, unstreamed request, so the result
+      // can differ from the sections already printed. Show it in full rather than append
+      // the rest of a different response.
+      const superseded = streamed.some(
+        (lines, i) =>
+          renderSection(SECTIONS[i], result[SECTIONS[i].key], colors).join('\n') !==
+          lines.join('\n')
+      );
+      if (superseded) {
+        return [
+          colors.warning('  The streamed response was malformed; the repaired analysis follows.'),
+          '',
+          await formatTerminal(result, options),
+        ].join('\n');
+      }
+
+      const lines: string[] = [];
+      for (const section of SECTIONS.slice(nextSection)) {
+        lines.push(...renderSection(section, result[section.key], colors));
+      }
+      lines.push(...renderGeneratedFiles(options.generated, colors));
+      lines.push(...renderFooter(result, options, colors));
+      return lines.join('\n');
+    },
+  };
 }
@@ -1,6 +1,18 @@
-import type { LLMProvider, SummaryResult } from './index';
+import { type HttpOptions, fetchWithRetry } from './http';
+import type {
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  LLMProvider,
+  ProviderOptions,
+  SummaryResult,
+  TokenUsage,
+} from './index';
+import { completeSummary } from './response';
+import { parseSSE, parseSSEData } from './sse';
 
 const DEFAULT_MODEL = 'claude-3-5-haiku-latest';
+const DEFAULT_MAX_TOKENS = 2000;
 const API_URL = 'https://api.anthropic.com/v1/messages';
 
 const SYSTEM_PROMPT = `You are a senior engineer reviewing a git diff.
@@ -32,9 +44,13 @@ export class AnthropicProvider implements LLMProvider {
   name = 'anthropic';
   private model: string;
   private apiKey: string;
+  private http?: HttpOptions;
+  private maxTokens?: number;
 
-  constructor(model?: string) {
+  constructor(model?: string, options: ProviderOptions = {}) {
     this.model = model || DEFAULT_MODEL;
+    this.http = options.http;
+    this.maxTokens = options.maxTokens;
     const apiKey = process.env.ANTHROPIC_API_KEY;
     if (!apiKey) {
       throw new Error('ANTHROPIC_API_KEY environment variable is not set');
@@ -47,25 +63,60 @@ export class AnthropicProvider implements LLMProvider {
   }
 
   async summarize(diff: string, customPrompt?: string): Promise<SummaryResult> {
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': this.apiKey,
-        'anthropic-version': '2023-06-01',
+    return this.summarizeWith(diff, customPrompt);
+  }
+
+  async summarizeStream(
+    diff: string,
+    customPrompt: string | undefined,
+    onText: (text: string) => void
+  ): Promise<SummaryResult> {
+    return this.summarizeWith(diff, customPrompt, onText);
+  }
+
+  private async summarizeWith(
+    diff: string,
+    customPrompt?: string,
+    onText?: (text: string) => void
+  ): Promise<SummaryResult> {
+    const system = customPrompt || SYSTEM_PROMPT;
+    const { summary, meta } = await completeSummary('Anthropic', (repair, attempt) =>
+      this.chat(system, [{ role: 'user', content: diff }, ...repair], {
+        maxTokens: this.maxTokens,
+        // A repair attempt is not streamed; the first attempt already wrote its output
+        onText: attempt === 0 ? onText : undefined,
+      })
+    );
+
+    return { ...summary, meta };
+  }
+
+  async chat(
+    system: string,
+    messages: ChatMessage[],
+    options: ChatOptions = {}
+  ): Promise<ChatResponse> {
+    const { onText, maxTokens = DEFAULT_MAX_TOKENS } = options;
+    const response = await fetchWithRetry(
+      API_URL,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': '2023-06-01',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: maxTokens,
+          system,
+          messages,
+          ...(onText ? { stream: true } : {}),
+        }),
       },
-      body: JSON.stringify({
-        model: this.model,
-        max_tokens: 500,
-        system: customPrompt || SYSTEM_PROMPT,
-        messages: [
-          {
-            role: 'user',
-            content: diff,
-          },
-        ],
-      }),
-    });
+      'Anthropic',
+      this.http
+    );
 
     if (!response.ok) {
       const errorBody = await response.text();
@@ -74,41 +125,66 @@ export class AnthropicProvider implements LLMProvider {
       );
     }
 
-    const data = (await response.json()) as {
-      content?: {
-        type: string;
-        text?: string;
-      }[];
-      usage?: {
-        input_tokens?: number;
-        output_tokens?: number;
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    let content = '';
+    let stopReason: string | undefined;
+
+    if (onText) {
+      for await (const { event, data } of parseSSE(response)) {
+        const payload = parseSSEData<{
+          message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+          delta?: { type?: string; text?: string; stop_reason?: string };
+          usage?: { output_tokens?: number };
+          error?: { message?: string };
+        }>(data, 'Anthropic');
+
+        switch (event) {
+          case 'message_start':
+            usage.inputTokens = payload.message?.usage?.input_tokens || 0;
+            break;
+          case 'content_block_delta':
+            if (payload.delta?.type === 'text_delta' && payload.delta.text) {
+              content += payload.delta.text;
+              onText(payload.delta.text);
+            }
+            break;
+          case 'message_delta':
+            usage.outputTokens = payload.usage?.output_tokens || usage.outputTokens;
+            stopReason = payload.delta?.stop_reason || stopReason;
+            break;
+          case 'error':
+            throw new Error(`Anthropic API error: ${payload.error?.message || data}`);
+        }
+      }
+    } else {
+      const data = (await response.json()) as {
+        content?: {
+          type: string;
+          text?: string;
+        }[];
+        stop_reason?: string;
+        usage?: {
+          input_tokens?: number;
+          output_tokens?: number;
+        };
       };
-    };
 
-    const textContent = data.content?.find((c) => c.type === 'text');
-    const messageContent = textContent?.text;
-    if (!messageContent) {
-      throw new Error('No content returned from Anthropic');
+      content = data.content?.find((c) => c.type === 'text')?.text || '';
+      stopReason = data.stop_reason;
+      usage.inputTokens = data.usage?.input_tokens || 0;
+      usage.outputTokens = data.usage?.output_tokens || 0;
     }
 
-    const cleanedContent = messageContent
-      .replace(/^\s*```(?:json)?/i, '')
-      .replace(/```\s*$/i, '')
-      .trim();
-
-    const parsed = JSON.parse(cleanedContent) as SummaryResult;
-
-    const inputTokens = data.usage?.input_tokens || 0;
-    const outputTokens = data.usage?.output_tokens || 0;
+    if (!content) {
+      throw new Error('No content returned from Anthropic');
+    }
 
     return {
-      purpose: parsed.purpose || [],
-      changeType: parsed.changeType || [],
-      risks: parsed.risks || [],
-      tests: parsed.tests || [],
+      content,
+      truncated: stopReason === 'max_tokens',
       meta: {
-        tokens: inputTokens + outputTokens,
-        cost: this.calculateCost(inputTokens, outputTokens),
+        tokens: usage.inputTokens + usage.outputTokens,
+        cost: this.calculateCost(usage.inputTokens, usage.outputTokens),
         model: this.model,
       },
     };
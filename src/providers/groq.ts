@@ -1,6 +1,17 @@
-import type { LLMProvider, SummaryResult } from './index';
+import { type HttpOptions, fetchWithRetry } from './http';
+import type {
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  LLMProvider,
+  ProviderOptions,
+  SummaryResult,
+} from './index';
+import { completeSummary } from './response';
+import { readChatCompletionStream } from './sse';
 
 const DEFAULT_MODEL = 'llama-3.3-70b-versatile';
+const DEFAULT_MAX_TOKENS = 2000;
 const API_URL = 'https://api.groq.com/openai/v1/chat/completions';
 
 const SYSTEM_PROMPT = `You are a senior engineer reviewing a git diff.
@@ -25,9 +36,13 @@ export class GroqProvider implements LLMProvider {
   name = 'groq';
   private model: string;
   private apiKey: string;
+  private http?: HttpOptions;
+  private maxTokens?: number;
 
-  constructor(model?: string) {
+  constructor(model?: string, options: ProviderOptions = {}) {
     this.model = model || DEFAULT_MODEL;
+    this.http = options.http;
+    this.maxTokens = options.maxTokens;
     const apiKey = process.env.GROQ_API_KEY;
     if (!apiKey) {
       throw new Error('GROQ_API_KEY environment variable is not set');
@@ -40,64 +55,102 @@ export class GroqProvider implements LLMProvider {
   }
 
   async summarize(diff: string, customPrompt?: string): Promise<SummaryResult> {
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${this.apiKey}`,
+    return this.summarizeWith(diff, customPrompt);
+  }
+
+  async summarizeStream(
+    diff: string,
+    customPrompt: string | undefined,
+    onText: (text: string) => void
+  ): Promise<SummaryResult> {
+    return this.summarizeWith(diff, customPrompt, onText);
+  }
+
+  private async summarizeWith(
+    diff: string,
+    customPrompt?: string,
+    onText?: (text: string) => void
+  ): Promise<SummaryResult> {
+    const system = customPrompt || SYSTEM_PROMPT;
+    const { summary, meta } = await completeSummary('Groq', (repair, attempt) =>
+      this.chat(system, [{ role: 'user', content: diff }, ...repair], {
+        maxTokens: this.maxTokens,
+        // A repair attempt is not streamed; the first attempt already wrote its output
+        onText: attempt === 0 ? onText : undefined,
+      })
+    );
+
+    return { ...summary, meta };
+  }
+
+  async chat(
+    system: string,
+    messages: ChatMessage[],
+    options: ChatOptions = {}
+  ): Promise<ChatResponse> {
+    const { onText, maxTokens = DEFAULT_MAX_TOKENS } = options;
+    const response = await fetchWithRetry(
+      API_URL,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: maxTokens,
+          messages: [{ role: 'system', content: system }, ...messages],
+          ...(onText ? { stream: true } : {}),
+        }),
       },
-      body: JSON.stringify({
-        model: this.model,
-        max_tokens: 500,
-        messages: [
-          {
-            role: 'system',
-            content: customPrompt || SYSTEM_PROMPT,
-          },
-          {
-            role: 'user',
-            content: diff,
-          },
-        ],
-      }),
-    });
+      'Groq',
+      this.http
+    );
 
     if (!response.ok) {
       const errorBody = await response.text();
       throw new Error(`Groq API error: ${response.status} ${response.statusText} - ${errorBody}`);
     }
 
-    const data = (await response.json()) as {
-      choices?: {
-        message?: {
-          content?: string;
+    let content: string | undefined;
+    let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+    let finishReason: string | undefined;
+
+    if (onText) {
+      ({ content, usage, finishReason } = await readChatCompletionStream(response, onText, 'Groq'));
+    } else {
+      const data = (await response.json()) as {
+        choices?: {
+          message?: {
+            content?: string;
+          };
+          finish_reason?: string;
+        }[];
+        usage?: {
+          prompt_tokens?: number;
+          completion_tokens?: number;
+          total_tokens?: number;
         };
-      }[];
-      usage?: {
-        total_tokens?: number;
       };
-    };
+      content = data.choices?.[0]?.message?.content;
+      finishReason = data.choices?.[0]?.finish_reason;
+      usage = data.usage;
+    }
 
-    const messageContent = data.choices?.[0]?.message?.content;
-    if (!messageContent) {
+    if (!content) {
       throw new Error('No content returned from Groq');
     }
 
-    const cleanedContent = messageContent
-      .replace(/^\s*```(?:json)?/i, '')
-      .replace(/```\s*$/i, '')
-      .trim();
-
-    const parsed = JSON.parse(cleanedContent) as SummaryResult;
+    const inputTokens = usage?.prompt_tokens || 0;
+    const outputTokens = usage?.completion_tokens || 0;
 
     return {
-      purpose: parsed.purpose || [],
-      changeType: parsed.changeType || [],
-      risks: parsed.risks || [],
-      tests: parsed.tests || [],
+      content,
+      truncated: finishReason === 'length',
       meta: {
-        tokens: data.usage?.total_tokens,
-        cost: this.calculateCost(data.usage?.total_tokens || 0),
+        tokens: inputTokens + outputTokens,
+        cost: this.calculateCost(inputTokens + outputTokens),
         model: this.model,
       },
     };
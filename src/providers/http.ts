@@ -0,0 +1,177 @@
+import { updateSpinner } from '../utils/spinner';
+
+export interface HttpOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  // Receives retry messages; the spinner when unset
+  onStatus?: (text: string) => void;
+}
+
+export const DEFAULT_HTTP_OPTIONS: Required<Omit<HttpOptions, 'onStatus'>> = {
+  timeoutMs: 60_000,
+  maxRetries: 3,
+  retryBaseDelayMs: 1_000,
+};
+
+// Longest we are willing to wait between attempts, even if the server asks for more
+const MAX_RETRY_DELAY_MS = 60_000;
+
+// 429 = rate limited, 529 = Anthropic overloaded, 408/5xx = transient server trouble
+const RETRYABLE_STATUS = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Delay requested by the server via `retry-after-ms` (OpenAI) or `retry-after`
+ * (seconds or an HTTP date), or null if neither is present and valid.
+ */
+function getRetryAfterMs(response: Response): number | null {
+  const retryAfterMs = response.headers.get('retry-after-ms');
+  if (retryAfterMs && !Number.isNaN(Number(retryAfterMs))) {
+    return Math.max(0, Number(retryAfterMs));
+  }
+
+  const retryAfter = response.headers.get('retry-after');
+  if (!retryAfter) return null;
+
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with jitter: base * 2^attempt, scaled by a random factor in [0.5, 1)
+function backoffDelay(attempt: number, baseDelayMs: number): number {
+  const exponential = baseDelayMs * 2 ** attempt;
+  return Math.min(MAX_RETRY_DELAY_MS, exponential * (0.5 + Math.random() * 0.5));
+}
+
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${Math.round(ms / 1000)}s` : `${ms}ms`;
+}
+
+// Abort reason for a request that got no response, or stopped sending its body, in time
+class RequestTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * Pass the body through while restarting the idle timer on every chunk, so a slow but
+ * steady stream is never cut off. When the timer fires, the request is aborted and the
+ * body read fails with the timeout error.
+ */
+function withIdleTimeout(
+  response: Response,
+  controller: AbortController,
+  label: string,
+  timeoutMs: number
+): Response {
+  if (!response.body) {
+    return response;
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const restart = () => {
+    clearTimeout(timer);
+    timer = setTimeout(
+      () =>
+        controller.abort(
+          new RequestTimeoutError(
+            `${label} response stalled: no data received for ${formatDuration(timeoutMs)}`
+          )
+        ),
+      timeoutMs
+    );
+    // A body that is never read to the end must not keep the process alive
+    timer.unref();
+  };
+
+  restart();
+  const body = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, stream) {
+        restart();
+        stream.enqueue(chunk);
+      },
+      flush() {
+        clearTimeout(timer);
+      },
+    })
+  );
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * fetch with a per-attempt timeout and retries for rate limits, overloaded servers and
+ * network failures. Honors `retry-after` headers. When retries are exhausted on an HTTP
+ * error the last response is returned so callers can report the API's error body.
+ *
+ * The timeout covers the wait for the response headers. After that it is an idle timeout:
+ * reading the body fails only when no data arrives for that long.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  label: string,
+  options: HttpOptions = {}
+): Promise<Response> {
+  const { timeoutMs, maxRetries, retryBaseDelayMs } = { ...DEFAULT_HTTP_OPTIONS, ...options };
+  const onStatus = options.onStatus ?? updateSpinner;
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < maxRetries;
+    let delayMs: number;
+
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () =>
+        controller.abort(new RequestTimeoutError(`timed out after ${formatDuration(timeoutMs)}`)),
+      timeoutMs
+    );
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      clearTimeout(timer);
+
+      if (response.ok || !RETRYABLE_STATUS.has(response.status) || !canRetry) {
+        return withIdleTimeout(response, controller, label, timeoutMs);
+      }
+
+      // Drain the body so the connection can be reused
+      await response.text().catch(() => '');
+      const retryAfter = getRetryAfterMs(response);
+      delayMs = Math.min(MAX_RETRY_DELAY_MS, retryAfter ?? backoffDelay(attempt, retryBaseDelayMs));
+      onStatus(
+        `${label} returned ${response.status}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 2}/${maxRetries + 1})...`
+      );
+    } catch (error) {
+      clearTimeout(timer);
+      const reason = error instanceof Error ? error.message : String(error);
+
+      if (!canRetry) {
+        throw new Error(`${label} request failed after ${attempt + 1} attempt(s): ${reason}`);
+      }
+
+      delayMs = backoffDelay(attempt, retryBaseDelayMs);
+      onStatus(
+        `${label} request ${reason}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 2}/${maxRetries + 1})...`
+      );
+    }
+
+    await sleep(delayMs);
+  }
+}
@@ -1,8 +1,23 @@
+export type Severity = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * A risk or suggested test. Everything except `text` is optional; `startLine`/`endLine`
+ * refer to the new side of the diff.
+ */
+export interface Finding {
+  text: string;
+  severity?: Severity;
+  category?: string;
+  file?: string;
+  startLine?: number;
+  endLine?: number;
+}
+
 export interface SummaryResult {
   purpose: string[];
   changeType: string[];
-  risks: string[];
-  tests: string[];
+  risks: Finding[];
+  tests: Finding[];
   meta?: {
     tokens?: number;
     cost?: number;
@@ -10,19 +25,95 @@ export interface SummaryResult {
   };
 }
 
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ChatOptions {
+  maxTokens?: number;
+  /** Stream the response; receives each text delta as it arrives. */
+  onText?: (text: string) => void;
+}
+
+export interface ChatResponse {
+  content: string;
+  truncated?: boolean; // the model stopped at maxTokens rather than finishing
+  meta: {
+    tokens: number;
+    cost: number;
+    model: string;
+  };
+}
+
 export interface LLMProvider {
   name: string;
   summarize(diff: string, customPrompt?: string): Promise<SummaryResult>;
+  /**
+   * Optional streaming variant of summarize. onText receives each text delta as it
+   * arrives; the resolved result is the same as summarize would return.
+   */
+  summarizeStream?(
+    diff: string,
+    customPrompt: string | undefined,
+    onText: (text: string) => void
+  ): Promise<SummaryResult>;
+  /**
+   * Generic completion: send a system prompt and a conversation, get the raw text back.
+   * Used for follow-up questions and anything else that isn't a diff summary.
+   */
+  chat(system: string, messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse>;
   getModel(): string;
 }
 
-export type ProviderName = 'groq' | 'openai' | 'anthropic';
+export type ProviderName = 'groq' | 'openai' | 'anthropic' | 'local';
+
+export const PROVIDER_NAMES: ProviderName[] = ['groq', 'openai', 'anthropic', 'local'];
+
+// Environment variable that enables each provider
+export const PROVIDER_ENV_VARS: Record<ProviderName, string> = {
+  groq: 'GROQ_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  local: 'LOCAL_LLM_BASE_URL',
+};
+
+// Default number of parallel requests in per-file mode. Groq's free tier has tight
+// per-minute limits, and local servers usually process one request at a time.
+export const PROVIDER_CONCURRENCY: Record<ProviderName, number> = {
+  groq: 2,
+  openai: 4,
+  anthropic: 4,
+  local: 1,
+};
+
+// Settings for the OpenAI-compatible local provider (Ollama, llama.cpp, vLLM)
+export interface LocalProviderConfig {
+  baseUrl?: string;
+  apiKey?: string;
+  models?: string[];
+}
+
+export interface ProviderOptions {
+  local?: LocalProviderConfig;
+  http?: HttpOptions;
+  maxTokens?: number; // output budget for summaries
+}
 
 import { AnthropicProvider } from './anthropic';
 import { GroqProvider } from './groq';
+import type { HttpOptions } from './http';
+import { LocalProvider } from './local';
 import { OpenAIProvider } from './openai';
 
 export function detectProvider(): ProviderName | null {
+  // An explicitly configured local server wins so code never leaves the machine by accident
+  if (process.env.LOCAL_LLM_BASE_URL) return 'local';
   if (process.env.ANTHROPIC_API_KEY) return 'anthropic';
   if (process.env.OPENAI_API_KEY) return 'openai';
   if (process.env.GROQ_API_KEY) return 'groq';
@@ -34,25 +125,32 @@ export function getAvailableProviders(): ProviderName[] {
   if (process.env.GROQ_API_KEY) providers.push('groq');
   if (process.env.OPENAI_API_KEY) providers.push('openai');
   if (process.env.ANTHROPIC_API_KEY) providers.push('anthropic');
+  if (process.env.LOCAL_LLM_BASE_URL) providers.push('local');
   return providers;
 }
 
-export function createProvider(name?: ProviderName, model?: string): LLMProvider {
+export function createProvider(
+  name?: ProviderName,
+  model?: string,
+  options: ProviderOptions = {}
+): LLMProvider {
   const providerName = name || detectProvider();
 
   if (!providerName) {
     throw new Error(
-      'No API key found. Set one of: ANTHROPIC_API_KEY, OPENAI_API_KEY, or GROQ_API_KEY'
+      'No API key found. Set one of: ANTHROPIC_API_KEY, OPENAI_API_KEY, or GROQ_API_KEY (or LOCAL_LLM_BASE_URL for a local server)'
     );
   }
 
   switch (providerName) {
     case 'groq':
-      return new GroqProvider(model);
+      return new GroqProvider(model, options);
     case 'openai':
-      return new OpenAIProvider(model);
+      return new OpenAIProvider(model, options);
     case 'anthropic':
-      return new AnthropicProvider(model);
+      return new AnthropicProvider(model, options);
+    case 'local':
+      return new LocalProvider(model, options);
     default:
       throw new Error(`Unknown provider: ${providerName}`);
   }
@@ -61,3 +159,11 @@ export function createProvider(name?: ProviderName, model?: string): LLMProvider
 export { GroqProvider } from './groq';
 export { OpenAIProvider } from './openai';
 export { AnthropicProvider } from './anthropic';
+export { LocalProvider, resolveLocalConfig } from './local';
+export {
+  ResponseParseError,
+  parseJsonObject,
+  parseSummaryContent,
+  toStringArray,
+} from './response';
+export { HttpOptions, DEFAULT_HTTP_OPTIONS } from './http';
@@ -0,0 +1,216 @@
+import { type HttpOptions, fetchWithRetry } from './http';
+import type {
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  LLMProvider,
+  LocalProviderConfig,
+  ProviderOptions,
+  SummaryResult,
+} from './index';
+import { completeSummary } from './response';
+import { readChatCompletionStream } from './sse';
+
+const DEFAULT_MODEL = 'llama3.1';
+const DEFAULT_MAX_TOKENS = 2000;
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const MODEL_LIST_TIMEOUT_MS = 3_000;
+
+const SYSTEM_PROMPT = `You are a senior engineer reviewing a git diff.
+
+Given the user's diff, respond ONLY with a JSON object of this shape:
+{
+  "purpose": ["..."],
+  "changeType": ["..."],
+  "risks": ["..."],
+  "tests": ["..."]
+}
+
+- "purpose": high-level intent behind the change
+- "changeType": whether this is a refactor or behavior change
+- "risks": what could break
+- "tests": what tests should exist
+
+Be concise.
+Do NOT restate the diff line by line.`;
+
+/**
+ * Resolve local provider settings from config, falling back to environment variables.
+ */
+export function resolveLocalConfig(config: LocalProviderConfig = {}): {
+  baseUrl: string;
+  apiKey?: string;
+  models: string[];
+} {
+  const baseUrl = config.baseUrl || process.env.LOCAL_LLM_BASE_URL || DEFAULT_BASE_URL;
+  const envModels = process.env.LOCAL_LLM_MODEL ? [process.env.LOCAL_LLM_MODEL] : [];
+
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    apiKey: config.apiKey || process.env.LOCAL_LLM_API_KEY || undefined,
+    models: config.models && config.models.length > 0 ? config.models : envModels,
+  };
+}
+
+/**
+ * Provider for self-hosted servers exposing an OpenAI-compatible chat completions API
+ * (Ollama, llama.cpp server, vLLM, LM Studio, ...). Diffs never leave the configured host.
+ */
+export class LocalProvider implements LLMProvider {
+  name = 'local';
+  private model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private http?: HttpOptions;
+  private maxTokens?: number;
+
+  constructor(model?: string, options: ProviderOptions = {}) {
+    const resolved = resolveLocalConfig(options.local);
+    this.http = options.http;
+    this.maxTokens = options.maxTokens;
+    this.model = model || resolved.models[0] || DEFAULT_MODEL;
+    this.baseUrl = resolved.baseUrl;
+    this.apiKey = resolved.apiKey;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  async summarize(diff: string, customPrompt?: string): Promise<SummaryResult> {
+    return this.summarizeWith(diff, customPrompt);
+  }
+
+  async summarizeStream(
+    diff: string,
+    customPrompt: string | undefined,
+    onText: (text: string) => void
+  ): Promise<SummaryResult> {
+    return this.summarizeWith(diff, customPrompt, onText);
+  }
+
+  private async summarizeWith(
+    diff: string,
+    customPrompt?: string,
+    onText?: (text: string) => void
+  ): Promise<SummaryResult> {
+    const system = customPrompt || SYSTEM_PROMPT;
+    const { summary, meta } = await completeSummary('Local LLM server', (repair, attempt) =>
+      this.chat(system, [{ role: 'user', content: diff }, ...repair], {
+        maxTokens: this.maxTokens,
+        // A repair attempt is not streamed; the first attempt already wrote its output
+        onText: attempt === 0 ? onText : undefined,
+      })
+    );
+
+    return { ...summary, meta };
+  }
+
+  async chat(
+    system: string,
+    messages: ChatMessage[],
+    options: ChatOptions = {}
+  ): Promise<ChatResponse> {
+    const { onText, maxTokens = DEFAULT_MAX_TOKENS } = options;
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetchWithRetry(
+      `${this.baseUrl}/chat/completions`,
+      {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: maxTokens,
+          messages: [{ role: 'system', content: system }, ...messages],
+          ...(onText ? { stream: true } : {}),
+        }),
+      },
+      `Local LLM server at ${this.baseUrl}`,
+      this.http
+    );
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(
+        `Local LLM API error: ${response.status} ${response.statusText} - ${errorBody}`
+      );
+    }
+
+    let content: string | undefined;
+    let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+    let finishReason: string | undefined;
+
+    if (onText) {
+      ({ content, usage, finishReason } = await readChatCompletionStream(
+        response,
+        onText,
+        'Local LLM server'
+      ));
+    } else {
+      const data = (await response.json()) as {
+        choices?: {
+          message?: {
+            content?: string;
+          };
+          finish_reason?: string;
+        }[];
+        usage?: {
+          prompt_tokens?: number;
+          completion_tokens?: number;
+          total_tokens?: number;
+        };
+      };
+      content = data.choices?.[0]?.message?.content;
+      finishReason = data.choices?.[0]?.finish_reason;
+      usage = data.usage;
+    }
+
+    if (!content) {
+      throw new Error('No content returned from local LLM server');
+    }
+
+    const inputTokens = usage?.prompt_tokens || 0;
+    const outputTokens = usage?.completion_tokens || 0;
+
+    return {
+      content,
+      truncated: finishReason === 'length',
+      meta: {
+        tokens: inputTokens + outputTokens,
+        // Self-hosted models have no per-token cost
+        cost: 0,
+        model: this.model,
+      },
+    };
+  }
+
+  /**
+   * List the models the server exposes via GET /models. Returns an empty list if the
+   * server is unreachable or does not implement the endpoint.
+   */
+  async listModels(): Promise<string[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+        signal: AbortSignal.timeout(MODEL_LIST_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        return [];
+      }
+      const data = (await response.json()) as { data?: { id?: string }[] };
+      return (data.data || []).map((m) => m.id).filter((id): id is string => !!id);
+    } catch {
+      return [];
+    }
+  }
+}
@@ -1,6 +1,17 @@
-import type { LLMProvider, SummaryResult } from './index';
+import { type HttpOptions, fetchWithRetry } from './http';
+import type {
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  LLMProvider,
+  ProviderOptions,
+  SummaryResult,
+} from './index';
+import { completeSummary } from './response';
+import { readChatCompletionStream } from './sse';
 
 const DEFAULT_MODEL = 'gpt-4o-mini';
+const DEFAULT_MAX_TOKENS = 2000;
 const API_URL = 'https://api.openai.com/v1/chat/completions';
 
 const SYSTEM_PROMPT = `You are a senior engineer reviewing a git diff.
@@ -33,9 +44,13 @@ export class OpenAIProvider implements LLMProvider {
   name = 'openai';
   private model: string;
   private apiKey: string;
+  private http?: HttpOptions;
+  private maxTokens?: number;
 
-  constructor(model?: string) {
+  constructor(model?: string, options: ProviderOptions = {}) {
     this.model = model || DEFAULT_MODEL;
+    this.http = options.http;
+    this.maxTokens = options.maxTokens;
     const apiKey = process.env.OPENAI_API_KEY;
     if (!apiKey) {
       throw new Error('OPENAI_API_KEY environment variable is not set');
@@ -48,69 +63,106 @@ export class OpenAIProvider implements LLMProvider {
   }
 
   async summarize(diff: string, customPrompt?: string): Promise<SummaryResult> {
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${this.apiKey}`,
+    return this.summarizeWith(diff, customPrompt);
+  }
+
+  async summarizeStream(
+    diff: string,
+    customPrompt: string | undefined,
+    onText: (text: string) => void
+  ): Promise<SummaryResult> {
+    return this.summarizeWith(diff, customPrompt, onText);
+  }
+
+  private async summarizeWith(
+    diff: string,
+    customPrompt?: string,
+    onText?: (text: string) => void
+  ): Promise<SummaryResult> {
+    const system = customPrompt || SYSTEM_PROMPT;
+    const { summary, meta } = await completeSummary('OpenAI', (repair, attempt) =>
+      this.chat(system, [{ role: 'user', content: diff }, ...repair], {
+        maxTokens: this.maxTokens,
+        // A repair attempt is not streamed; the first attempt already wrote its output
+        onText: attempt === 0 ? onText : undefined,
+      })
+    );
+
+    return { ...summary, meta };
+  }
+
+  async chat(
+    system: string,
+    messages: ChatMessage[],
+    options: ChatOptions = {}
+  ): Promise<ChatResponse> {
+    const { onText, maxTokens = DEFAULT_MAX_TOKENS } = options;
+    const response = await fetchWithRetry(
+      API_URL,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: maxTokens,
+          messages: [{ role: 'system', content: system }, ...messages],
+          ...(onText ? { stream: true, stream_options: { include_usage: true } } : {}),
+        }),
       },
-      body: JSON.stringify({
-        model: this.model,
-        max_tokens: 500,
-        messages: [
-          {
-            role: 'system',
-            content: customPrompt || SYSTEM_PROMPT,
-          },
-          {
-            role: 'user',
-            content: diff,
-          },
-        ],
-      }),
-    });
+      'OpenAI',
+      this.http
+    );
 
     if (!response.ok) {
       const errorBody = await response.text();
       throw new Error(`OpenAI API error: ${response.status} ${response.statusText} - ${errorBody}`);
     }
 
-    const data = (await response.json()) as {
-      choices?: {
-        message?: {
-          content?: string;
+    let content: string | undefined;
+    let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+    let finishReason: string | undefined;
+
+    if (onText) {
+      ({ content, usage, finishReason } = await readChatCompletionStream(
+        response,
+        onText,
+        'OpenAI'
+      ));
+    } else {
+      const data = (await response.json()) as {
+        choices?: {
+          message?: {
+            content?: string;
+          };
+          finish_reason?: string;
+        }[];
+        usage?: {
+          prompt_tokens?: number;
+          completion_tokens?: number;
+          total_tokens?: number;
         };
-      }[];
-      usage?: {
-        prompt_tokens?: number;
-        completion_tokens?: number;
-        total_tokens?: number;
       };
-    };
+      content = data.choices?.[0]?.message?.content;
+      finishReason = data.choices?.[0]?.finish_reason;
+      usage = data.usage;
+    }
 
-    const messageContent = data.choices?.[0]?.message?.content;
-    if (!messageContent) {
+    if (!content) {
       throw new Error('No content returned from OpenAI');
     }
 
-    const cleanedContent = messageContent
-      .replace(/^\s*```(?:json)?/i, '')
-      .replace(/```\s*$/i, '')
-      .trim();
-
-    const parsed = JSON.parse(cleanedContent) as SummaryResult;
+    const inputTokens = usage?.prompt_tokens || 0;
+    const outputTokens = usage?.completion_tokens || 0;
 
     return {
-      purpose: parsed.purpose || [],
-      changeType: parsed.changeType || [],
-      risks: parsed.risks || [],
-      tests: parsed.tests || [],
+      content,
+      truncated: finishReason === 'length',
       meta: {
-        tokens: data.usage?.total_tokens,
-        cost: this.calculateCost(
-          data.usage?.prompt_tokens || 0,
-          data.usage?.completion_tokens || 0
-        ),
+        tokens: inputTokens + outputTokens,
+        cost: this.calculateCost(inputTokens, outputTokens),
         model: this.model,
       },
     };
@@ -0,0 +1,169 @@
+import { normalizeFindings } from '../core/findings';
+import { findClosingBracket } from '../utils/partial-json';
+import type { ChatMessage, ChatResponse, SummaryResult } from './index';
+
+type SummaryFields = Omit<SummaryResult, 'meta'>;
+
+const SUMMARY_FIELDS = ['purpose', 'changeType', 'risks', 'tests'] as const;
+
+/**
+ * Raised when a model response cannot be turned into a SummaryResult. Keeps the raw
+ * content so callers can show what the model actually said.
+ */
+export class ResponseParseError extends Error {
+  constructor(
+    message: string,
+    readonly content: string
+  ) {
+    super(message);
+    this.name = 'ResponseParseError';
+  }
+}
+
+/**
+ * Pull the first complete JSON object out of a response, ignoring code fences and any
+ * prose the model put around it.
+ */
+function extractJsonObject(content: string): string {
+  const start = content.indexOf('{');
+  if (start === -1) {
+    throw new ResponseParseError('no JSON object found in the response', content);
+  }
+
+  const end = findClosingBracket(content, start);
+  if (end === -1) {
+    throw new ResponseParseError('the JSON object in the response is incomplete', content);
+  }
+
+  return content.slice(start, end + 1);
+}
+
+/**
+ * Extract and parse the JSON object in a model response.
+ */
+export function parseJsonObject(content: string): Record<string, unknown> {
+  const json = extractJsonObject(content);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new ResponseParseError(
+      `invalid JSON: ${error instanceof Error ? error.message : error}`,
+      content
+    );
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ResponseParseError('the response must be a JSON object', content);
+  }
+
+  return parsed as Record<string, unknown>;
+}
+
+export function toStringArray(value: unknown, field: string, content: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return value.trim() ? [value] : [];
+  if (!Array.isArray(value)) {
+    throw new ResponseParseError(`"${field}" must be an array of strings`, content);
+  }
+
+  return value.map((item) => {
+    if (typeof item === 'string') return item;
+    if (typeof item === 'number' || typeof item === 'boolean') return String(item);
+    throw new ResponseParseError(`"${field}" must be an array of strings`, content);
+  });
+}
+
+function toFindings(value: unknown, field: string, content: string): SummaryResult['risks'] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return normalizeFindings([value]);
+  if (!Array.isArray(value)) {
+    throw new ResponseParseError(`"${field}" must be an array`, content);
+  }
+  return normalizeFindings(value);
+}
+
+/**
+ * Parse and validate a model response into the SummaryResult fields. Single strings are
+ * coerced into one-item arrays; anything else that doesn't fit the schema throws a
+ * ResponseParseError describing the problem.
+ */
+export function parseSummaryContent(content: string): SummaryFields {
+  const obj = parseJsonObject(content);
+  if (!SUMMARY_FIELDS.some((field) => field in obj)) {
+    throw new ResponseParseError(
+      `the JSON object has none of the expected fields (${SUMMARY_FIELDS.join(', ')})`,
+      content
+    );
+  }
+
+  return {
+    purpose: toStringArray(obj.purpose, 'purpose', content),
+    changeType: toStringArray(obj.changeType, 'changeType', content),
+    risks: toFindings(obj.risks, 'risks', content),
+    tests: toFindings(obj.tests, 'tests', content),
+  };
+}
+
+function repairPrompt(error: string): string {
+  return `Your previous response could not be used: ${error}.
+Respond again with ONLY the JSON object in the requested shape. No prose, no code fences.`;
+}
+
+function preview(content: string): string {
+  const trimmed = content.trim().replace(/\s+/g, ' ');
+  return trimmed.length > 200 ? `${trimmed.slice(0, 200)}...` : trimmed;
+}
+
+// A response cut off at maxTokens is not retried, since the same limit would cut it off again
+function truncatedError(providerLabel: string, content: string): ResponseParseError {
+  return new ResponseParseError(
+    `${providerLabel} stopped at the output token limit before finishing the analysis. Raise maxTokens in the config file, or use --per-file to analyze one file at a time.`,
+    content
+  );
+}
+
+/**
+ * Run a completion and parse it as a summary. If the response is malformed, the model is
+ * re-prompted once with the validation error before giving up with a clear diagnostic.
+ *
+ * `complete` receives the extra messages to append to the conversation (empty on the
+ * first attempt) and the attempt number.
+ */
+export async function completeSummary(
+  providerLabel: string,
+  complete: (repairMessages: ChatMessage[], attempt: number) => Promise<ChatResponse>
+): Promise<{ summary: SummaryFields; meta: ChatResponse['meta'] }> {
+  const first = await complete([], 0);
+  try {
+    return { summary: parseSummaryContent(first.content), meta: first.meta };
+  } catch (error) {
+    if (!(error instanceof ResponseParseError)) throw error;
+    if (first.truncated) throw truncatedError(providerLabel, first.content);
+
+    const second = await complete(
+      [
+        { role: 'assistant', content: first.content },
+        { role: 'user', content: repairPrompt(error.message) },
+      ],
+      1
+    );
+    const meta = {
+      tokens: first.meta.tokens + second.meta.tokens,
+      cost: first.meta.cost + second.meta.cost,
+      model: second.meta.model,
+    };
+
+    try {
+      return { summary: parseSummaryContent(second.content), meta };
+    } catch (retryError) {
+      if (!(retryError instanceof ResponseParseError)) throw retryError;
+      if (second.truncated) throw truncatedError(providerLabel, second.content);
+      throw new ResponseParseError(
+        `${providerLabel} returned a malformed analysis twice (${retryError.message}). Response was: "${preview(second.content)}". Try again, use a different model, or check your customPrompt.`,
+        second.content
+      );
+    }
+  }
+}
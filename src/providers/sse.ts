@@ -0,0 +1,114 @@
+export interface SSEEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Parse a Server-Sent Events response body into events. Handles events split across
+ * network chunks, multi-line data fields and CRLF line endings.
+ */
+export async function* parseSSE(response: Response): AsyncGenerator<SSEEvent> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  const dispatch = (): SSEEvent | null => {
+    const result = data.length > 0 ? { event, data: data.join('\n') } : null;
+    event = undefined;
+    data = [];
+    return result;
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    const lines = buffer.split(/\r?\n/);
+    buffer = done ? '' : lines.pop() || '';
+
+    for (const line of lines) {
+      if (line === '') {
+        const dispatched = dispatch();
+        if (dispatched) yield dispatched;
+      } else if (line.startsWith(':')) {
+        // Comment / keep-alive
+      } else if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+
+    if (done) {
+      const dispatched = dispatch();
+      if (dispatched) yield dispatched;
+      return;
+    }
+  }
+}
+
+/**
+ * Parse the JSON payload of an event. A malformed payload fails with an error naming the
+ * provider and showing the start of the payload, instead of a bare SyntaxError.
+ */
+export function parseSSEData<T>(data: string, label: string): T {
+  try {
+    return JSON.parse(data) as T;
+  } catch (error) {
+    const preview = data.length > 200 ? `${data.slice(0, 200)}...` : data;
+    throw new Error(
+      `${label} sent a malformed stream event (${error instanceof Error ? error.message : error}): ${preview}`
+    );
+  }
+}
+
+/**
+ * Read an OpenAI-style chat completions stream (also used by Groq and OpenAI-compatible
+ * local servers). Calls onText for every content delta and returns the full text, the
+ * finish reason and the usage block if the server sent one.
+ */
+export async function readChatCompletionStream(
+  response: Response,
+  onText: (text: string) => void,
+  label: string
+): Promise<{
+  content: string;
+  finishReason?: string;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}> {
+  let content = '';
+  let finishReason: string | undefined;
+  let usage: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } = {};
+
+  for await (const { data } of parseSSE(response)) {
+    if (data === '[DONE]') break;
+
+    const chunk = parseSSEData<{
+      choices?: { delta?: { content?: string }; finish_reason?: string | null }[];
+      usage?: typeof usage;
+      // Groq reports usage on the final chunk under x_groq
+      x_groq?: { usage?: typeof usage };
+    }>(data, label);
+
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      onText(delta);
+    }
+
+    finishReason = chunk.choices?.[0]?.finish_reason || finishReason;
+
+    const chunkUsage = chunk.usage || chunk.x_groq?.usage;
+    if (chunkUsage) {
+      usage = chunkUsage;
+    }
+  }
+
+  return { content, finishReason, usage };
+}
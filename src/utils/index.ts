@@ -1,3 +1,6 @@
 export * from './colors';
+export * from './partial-json';
+export * from './pool';
+export * from './progress';
 export * from './spinner';
 export * from './tokens';
@@ -0,0 +1,63 @@
+/**
+ * Find the end index (inclusive) of the JSON value starting at `start` (an opening
+ * bracket or brace), or -1 if the value is not yet complete.
+ */
+export function findClosingBracket(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === '\\') {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Extract the array-valued fields that are already complete in a partially received
+ * JSON object. Used to render streamed responses section by section.
+ */
+export function extractCompletedArrays(text: string, keys: string[]): Record<string, unknown[]> {
+  const completed: Record<string, unknown[]> = {};
+
+  for (const key of keys) {
+    const match = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(text);
+    if (!match) continue;
+
+    const start = match.index + match[0].length - 1;
+    const end = findClosingBracket(text, start);
+    if (end === -1) continue;
+
+    try {
+      const value = JSON.parse(text.slice(start, end + 1));
+      if (Array.isArray(value)) {
+        completed[key] = value;
+      }
+    } catch {}
+  }
+
+  return completed;
+}
@@ -0,0 +1,102 @@
+import { createColors } from './colors';
+
+export type ProgressStatus = 'pending' | 'running' | 'done' | 'cached' | 'failed';
+
+export interface ProgressDisplay {
+  update(index: number, status: ProgressStatus, detail?: string): void;
+  stop(): void;
+}
+
+const FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+const FRAME_INTERVAL_MS = 80;
+
+const noOpProgress: ProgressDisplay = {
+  update: () => {},
+  stop: () => {},
+};
+
+/**
+ * Multi-line progress display with one line per item, redrawn in place on stderr.
+ * When the list is taller than the terminal only running and failed items are shown.
+ * Does nothing when stderr is not a TTY.
+ */
+export async function createProgressDisplay(
+  title: string,
+  labels: string[],
+  options: { colors?: boolean } = {}
+): Promise<ProgressDisplay> {
+  const stream = process.stderr;
+  if (!stream.isTTY) {
+    return noOpProgress;
+  }
+
+  const colors = await createColors(options.colors !== false);
+  const items = labels.map((label) => ({ label, status: 'pending' as ProgressStatus, detail: '' }));
+  let frame = 0;
+  let drawnLines = 0;
+
+  const truncate = (text: string) => {
+    const width = (stream.columns || 80) - 1;
+    return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+  };
+
+  const renderItem = (item: (typeof items)[number]) => {
+    const detail = item.detail ? ` - ${item.detail}` : '';
+    switch (item.status) {
+      case 'running':
+        return colors.info(truncate(`  ${FRAMES[frame]} ${item.label}${detail}`));
+      case 'done':
+        return colors.success(truncate(`  ✔ ${item.label}`));
+      case 'cached':
+        return colors.success(truncate(`  ✔ ${item.label} (cached)`));
+      case 'failed':
+        return colors.error(truncate(`  ✖ ${item.label}${detail}`));
+      default:
+        return colors.dim(truncate(`  · ${item.label}`));
+    }
+  };
+
+  const render = () => {
+    const count = (status: ProgressStatus) => items.filter((i) => i.status === status).length;
+    const finished = count('done') + count('cached') + count('failed');
+    const summary = [`${finished}/${items.length} done`, `${count('cached')} cached`];
+    if (count('failed') > 0) summary.push(`${count('failed')} failed`);
+
+    const maxLines = (stream.rows || 24) - 2;
+    const visible =
+      items.length <= maxLines
+        ? items
+        : items.filter((i) => i.status === 'running' || i.status === 'failed').slice(-maxLines);
+
+    const lines = [
+      colors.bold(truncate(`${title} (${summary.join(', ')})`)),
+      ...visible.map(renderItem),
+    ];
+
+    // Move back to the first line we drew and clear everything below it
+    let output = drawnLines > 0 ? `\x1b[${drawnLines}A\r\x1b[0J` : '';
+    output += `${lines.join('\n')}\n`;
+    stream.write(output);
+    drawnLines = lines.length;
+  };
+
+  const timer = setInterval(() => {
+    frame = (frame + 1) % FRAMES.length;
+    render();
+  }, FRAME_INTERVAL_MS);
+  timer.unref();
+
+  render();
+
+  return {
+    update(index, status, detail = '') {
+      items[index].status = status;
+      items[index].detail = detail;
+      render();
+    },
+    stop() {
+      clearInterval(timer);
+      render();
+    },
+  };
+}
@@ -0,0 +1,141 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+import {
+  type ChangelogEntry,
+  changelogSection,
+  formatChangelogSection,
+  insertChangelogSection,
+  mergeUnreleasedEntries,
+} from '../src/core/changelog';
+
+// Shaped like this repository's CHANGELOG.md: an Unreleased section above the releases
+const changelog = fs.readFileSync(path.join(__dirname, 'fixtures', 'keep-a-changelog.md'), 'utf-8');
+
+function headings(content: string): string[] {
+  return content.split('\n').filter((line) => line.startsWith('#'));
+}
+
+describe('changelogSection', () => {
+  it('picks the section of the highest-precedence label', () => {
+    assert.equal(changelogSection(['feature', 'bugfix']), 'Fixed');
+    assert.equal(changelogSection(['refactor', 'security: token leak']), 'Security');
+    assert.equal(changelogSection(['Feature']), 'Added');
+  });
+
+  it('sends unknown labels to Changed and leaves out docs and tests', () => {
+    assert.equal(changelogSection(['perf']), 'Changed');
+    assert.equal(changelogSection(['docs']), null);
+    assert.equal(changelogSection(['test']), null);
+  });
+});
+
+describe('formatChangelogSection', () => {
+  it('groups entries in Keep a Changelog order', () => {
+    const entries: ChangelogEntry[] = [
+      { section: 'Fixed', text: 'Crash on empty diff' },
+      { section: 'Added', text: 'JSON output' },
+    ];
+    assert.equal(
+      formatChangelogSection('1.1.0', '2026-03-02', entries),
+      '## [1.1.0] - 2026-03-02\n\n### Added\n\n- JSON output\n\n### Fixed\n\n- Crash on empty diff\n'
+    );
+  });
+
+  it('has no date for Unreleased and a note when there are no entries', () => {
+    assert.equal(
+      formatChangelogSection('Unreleased', null, []),
+      '## [Unreleased]\n\nNo notable changes.\n'
+    );
+  });
+});
+
+describe('insertChangelogSection', () => {
+  it('inserts a release below Unreleased and above the latest release', () => {
+    const section = formatChangelogSection('1.1.0', '2026-03-02', [
+      { section: 'Added', text: 'JSON output' },
+    ]);
+    const updated = insertChangelogSection(changelog, '1.1.0', section);
+    assert.deepEqual(headings(updated).slice(1), [
+      '## [Unreleased]',
+      '### Added',
+      '### Fixed',
+      '## [1.1.0] - 2026-03-02',
+      '### Added',
+      '## [1.0.0] - 2026-01-15',
+      '### Added',
+    ]);
+    assert.match(updated, /- Hunk headers with a missing line count\.\n\n## \[1\.1\.0\]/);
+    assert.match(updated, /- JSON output\n\n## \[1\.0\.0\]/);
+  });
+
+  it('refuses to add a version twice', () => {
+    assert.throws(
+      () => insertChangelogSection(changelog, '1.0.0', '## [1.0.0]\n'),
+      /already has a section for 1\.0\.0/
+    );
+  });
+
+  it('appends to a changelog without releases', () => {
+    assert.equal(
+      insertChangelogSection('# Changelog\n', '0.1.0', '## [0.1.0]\n\nNo notable changes.\n'),
+      '# Changelog\n\n## [0.1.0]\n\nNo notable changes.\n'
+    );
+  });
+});
+
+describe('mergeUnreleasedEntries', () => {
+  it('adds entries under the existing and new subsections of Unreleased', () => {
+    const updated = mergeUnreleasedEntries(changelog, [
+      { section: 'Fixed', text: 'Crash on empty diff' },
+      { section: 'Added', text: 'JSON output' },
+      { section: 'Changed', text: 'Faster parsing' },
+      { section: 'Security', text: 'Redact tokens' },
+    ]);
+    assert.ok(updated);
+    const unreleased = updated.slice(
+      updated.indexOf('## [Unreleased]'),
+      updated.indexOf('## [1.0.0]')
+    );
+    assert.equal(
+      unreleased,
+      [
+        '## [Unreleased]',
+        '',
+        '### Added',
+        '',
+        '- `local` provider for OpenAI-compatible servers.',
+        '- JSON output',
+        '',
+        '### Changed',
+        '',
+        '- Faster parsing',
+        '',
+        '### Fixed',
+        '',
+        '- Hunk headers with a missing line count.',
+        '- Crash on empty diff',
+        '',
+        '### Security',
+        '',
+        '- Redact tokens',
+        '',
+        '',
+      ].join('\n')
+    );
+    assert.ok(updated.endsWith('### Added\n\n- First release.\n'));
+  });
+
+  it('replaces the no-changes note', () => {
+    const content = '# Changelog\n\n## [Unreleased]\n\nNo notable changes.\n';
+    assert.equal(
+      mergeUnreleasedEntries(content, [{ section: 'Fixed', text: 'Crash on empty diff' }]),
+      '# Changelog\n\n## [Unreleased]\n\n### Fixed\n\n- Crash on empty diff\n'
+    );
+  });
+
+  it('returns null without an Unreleased section', () => {
+    assert.equal(mergeUnreleasedEntries('# Changelog\n', []), null);
+  });
+});
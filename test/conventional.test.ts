@@ -0,0 +1,116 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  formatCommitMessage,
+  inferScope,
+  parseCommitHeader,
+  validateCommitMessage,
+} from '../src/core/conventional';
+import { parseDiff } from '../src/core/diff-parser';
+
+// A diff that adds an empty file at each path
+function changed(...paths: string[]) {
+  return parseDiff(
+    paths
+      .map((p) => `diff --git a/${p} b/${p}\nnew file mode 100644\nindex 0000000..e69de29\n`)
+      .join('')
+  );
+}
+
+describe('inferScope', () => {
+  it('uses the first directory below generic roots when all files share it', () => {
+    assert.equal(inferScope(changed('src/output/a.ts', 'src/output/b.ts')), 'output');
+    assert.equal(inferScope(changed('packages/cli/src/index.ts', 'packages/cli/README.md')), 'cli');
+  });
+
+  it('gives no scope for files spread across directories or at the root', () => {
+    assert.equal(inferScope(changed('src/output/a.ts', 'src/core/b.ts')), undefined);
+    assert.equal(inferScope(changed('src/index.ts')), undefined);
+    assert.equal(inferScope(changed('README.md')), undefined);
+  });
+});
+
+describe('formatCommitMessage', () => {
+  it('renders the header, a wrapped paragraph and the breaking change footer', () => {
+    assert.equal(
+      formatCommitMessage({
+        type: 'feat',
+        scope: 'output',
+        subject: 'add SARIF output',
+        body: [
+          'Writes risks as SARIF 2.1.0 so code scanning dashboards can show them next to the other analyzers.',
+        ],
+        breaking: 'the --sarif flag is now --format sarif',
+      }),
+      `feat(output)!: add SARIF output
+
+Writes risks as SARIF 2.1.0 so code scanning dashboards can show them
+next to the other analyzers.
+
+BREAKING CHANGE: the --sarif flag is now --format sarif
+`
+    );
+  });
+
+  it('renders several body items as a bullet list with hanging indents', () => {
+    assert.equal(
+      formatCommitMessage({
+        type: 'fix',
+        subject: 'handle empty diffs',
+        body: [
+          'Return early',
+          'Print a hint about staged changes instead of calling the provider with nothing',
+        ],
+      }),
+      `fix: handle empty diffs
+
+- Return early
+- Print a hint about staged changes instead of calling the provider with
+  nothing
+`
+    );
+  });
+});
+
+describe('parseCommitHeader', () => {
+  it('parses type, scope, breaking marker and subject', () => {
+    assert.deepEqual(parseCommitHeader('Feat(api)!: drop v1 endpoints '), {
+      type: 'feat',
+      scope: 'api',
+      breaking: true,
+      subject: 'drop v1 endpoints',
+    });
+    assert.deepEqual(parseCommitHeader('fix: typo'), {
+      type: 'fix',
+      scope: undefined,
+      breaking: false,
+      subject: 'typo',
+    });
+  });
+
+  it('returns null for other headers', () => {
+    assert.equal(parseCommitHeader('Update README'), null);
+    assert.equal(parseCommitHeader('fix:no space'), null);
+    assert.equal(parseCommitHeader('feat(a)(b): two scopes'), null);
+  });
+});
+
+describe('validateCommitMessage', () => {
+  it('accepts a valid message', () => {
+    assert.deepEqual(validateCommitMessage('fix(parser): handle CRLF\n\nDetails.\n'), []);
+  });
+
+  it('reports unknown types and a missing blank line', () => {
+    assert.deepEqual(validateCommitMessage('feature: x\nmore'), [
+      'Type "feature" is not one of: feat, fix, docs, style, refactor, perf, test, build, ci, chore, revert.',
+      'The header must be followed by a blank line.',
+    ]);
+    assert.deepEqual(validateCommitMessage('feature: x', ['feature']), []);
+  });
+
+  it('reports a header that is not conventional', () => {
+    assert.deepEqual(validateCommitMessage('WIP'), [
+      '"WIP" is not a "type(scope): subject" header.',
+    ]);
+  });
+});
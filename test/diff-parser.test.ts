@@ -0,0 +1,176 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+import { type ParsedHunk, parseDiff, splitDiffByFile } from '../src/core/diff-parser';
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf-8');
+}
+
+// Hunk lines in a compact form: type letter, old/new line numbers, "!" for a missing newline
+function lines(hunk: ParsedHunk): string[] {
+  return hunk.lines
+    .filter((line) => line.type !== 'header')
+    .map(
+      (line) =>
+        `${line.type[0]} ${line.oldLineNumber ?? '-'}/${line.newLineNumber ?? '-'}` +
+        `${line.noNewline ? '!' : ''} ${line.content}`
+    );
+}
+
+describe('git diffs', () => {
+  it('parses paths with spaces and quoted, octal-escaped paths', () => {
+    const diff = fixture('spaces-quoted.diff');
+    assert.equal(splitDiffByFile(diff).length, 2);
+
+    const [quoted, spaced] = parseDiff(diff);
+    assert.equal(quoted.oldPath, 'café "x".txt');
+    assert.equal(quoted.newPath, 'café "x".txt');
+    assert.deepEqual(lines(quoted.hunks[0]), ['d 1/- a', 'a -/1 b']);
+    assert.equal(spaced.oldPath, 'my file.txt');
+    assert.equal(spaced.newPath, 'my file.txt');
+  });
+
+  it('parses --no-prefix and --src-prefix diffs', () => {
+    for (const name of ['no-prefix.diff', 'src-prefix.diff']) {
+      const [file] = parseDiff(fixture(name));
+      assert.equal(file.oldPath, 'my file.txt', name);
+      assert.equal(file.newPath, 'my file.txt', name);
+      assert.deepEqual(
+        lines(file.hunks[0]),
+        ['c 1/1 one', 'd 2/- two', 'a -/2 2', 'c 3/3 three'],
+        name
+      );
+    }
+  });
+
+  it('parses rename, copy and similarity headers', () => {
+    const diff = fixture('rename-copy.diff');
+    assert.equal(splitDiffByFile(diff).length, 2);
+
+    const [copy, rename] = parseDiff(diff);
+    assert.equal(copy.oldPath, 'base.txt');
+    assert.equal(copy.newPath, 'copy.txt');
+    assert.equal(copy.isCopied, true);
+    assert.equal(copy.isRenamed, false);
+    assert.equal(copy.similarity, 94);
+
+    assert.equal(rename.oldPath, 'base.txt');
+    assert.equal(rename.newPath, 'moved.txt');
+    assert.equal(rename.isRenamed, true);
+    assert.equal(rename.isCopied, false);
+    assert.equal(rename.similarity, 94);
+    assert.deepEqual(lines(rename.hunks[0]), [
+      'c 17/17 17',
+      'c 18/18 18',
+      'c 19/19 19',
+      'd 20/- 20',
+    ]);
+  });
+
+  it('parses mode-only changes', () => {
+    const [file] = parseDiff(fixture('mode.diff'));
+    assert.equal(file.newPath, 'run.sh');
+    assert.equal(file.oldMode, '100644');
+    assert.equal(file.newMode, '100755');
+    assert.deepEqual(file.hunks, []);
+  });
+
+  it('parses binary files with and without a binary patch', () => {
+    for (const name of ['binary.diff', 'binary-patch.diff']) {
+      const diff = fixture(name);
+      assert.equal(splitDiffByFile(diff).length, 1, name);
+      const [file] = parseDiff(diff);
+      assert.equal(file.newPath, 'img.bin', name);
+      assert.equal(file.isBinary, true, name);
+      assert.deepEqual(file.hunks, [], name);
+    }
+  });
+
+  it('marks lines followed by "\\ No newline at end of file"', () => {
+    const [file] = parseDiff(fixture('no-newline.diff'));
+    assert.deepEqual(lines(file.hunks[0]), [
+      'c 1/1 line1',
+      'd 2/-! line2',
+      'a -/2 line2',
+      'a -/3 line3',
+    ]);
+  });
+
+  it('reads removed lines starting with "--" as deletions, not file headers', () => {
+    const diff = fixture('dashdash.diff');
+    assert.equal(splitDiffByFile(diff).length, 1);
+    const [file] = parseDiff(diff);
+    assert.equal(file.newPath, 'q.sql');
+    assert.deepEqual(lines(file.hunks[0]), [
+      'c 1/1 SELECT 1;',
+      'd 2/- -- old comment',
+      'a -/2 ++ new',
+      'c 3/3 SELECT 2;',
+    ]);
+  });
+});
+
+describe('other diff formats', () => {
+  it('parses plain diff -u output', () => {
+    const [file] = parseDiff(fixture('plain-unified.diff'));
+    assert.equal(file.oldPath, 'conf.ini');
+    assert.equal(file.newPath, 'conf.ini');
+    assert.deepEqual(lines(file.hunks[0]), [
+      'c 1/1 alpha',
+      'd 2/- beta',
+      'a -/2 BETA',
+      'c 3/3 gamma',
+      'a -/4 delta',
+    ]);
+  });
+
+  it('parses svn diff output', () => {
+    const diff = fixture('svn.diff');
+    assert.equal(splitDiffByFile(diff).length, 2);
+
+    const [changed, added] = parseDiff(diff);
+    assert.equal(changed.newPath, 'trunk/src/app.c');
+    assert.equal(changed.isNew, false);
+    assert.deepEqual(lines(changed.hunks[0]), [
+      'c 1/1 #include <stdio.h>',
+      'c 2/2 int main(void) {',
+      'd 3/-   return 0;',
+      'a -/3   return 1;',
+      'c 4/4 }',
+    ]);
+    assert.equal(added.newPath, 'trunk/README');
+    assert.equal(added.isNew, true);
+    assert.deepEqual(lines(added.hunks[0]), ['a -/1 Hello']);
+  });
+
+  it('parses combined diffs of merges', () => {
+    const [file] = parseDiff(fixture('combined.diff'));
+    assert.equal(file.newPath, 'my file.txt');
+    assert.deepEqual(lines(file.hunks[0]), [
+      'c 1/1 one',
+      'd 2/- main',
+      'd -/- side',
+      'a -/2 merged',
+      'c 3/3 three',
+    ]);
+  });
+
+  it('parses a format-patch series', () => {
+    const diff = fixture('format-patch.mbox');
+    assert.equal(splitDiffByFile(diff).length, 2);
+
+    const [mode, changed] = parseDiff(diff);
+    assert.equal(mode.newPath, 'run.sh');
+    assert.equal(mode.newMode, '100755');
+    assert.equal(changed.newPath, 'my file.txt');
+    // The "-- " signature separator after the last hunk is not a removed line
+    assert.deepEqual(lines(changed.hunks[0]), [
+      'c 1/1 one',
+      'd 2/- two',
+      'a -/2 main',
+      'c 3/3 three',
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+import { parseDiff } from '../src/core/diff-parser';
+import {
+  anchorFinding,
+  matchesFailOn,
+  normalizeFindings,
+  parseFailOn,
+  resolveFindingLocation,
+  validateFindingLocations,
+} from '../src/core/findings';
+
+// src/server.ts with hunks at new lines 10-14 and 41-44, the new lib/util/format.ts (lines
+// 1-2) and the deleted src/old.ts
+const files = parseDiff(
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'findings.diff'), 'utf-8')
+);
+
+describe('normalizeFindings', () => {
+  it('accepts strings and objects and drops malformed items', () => {
+    assert.deepEqual(
+      normalizeFindings([
+        'Plain text',
+        '  ',
+        { description: 'From description', severity: 'HIGH', category: ' Security ' },
+        { text: 'Line as string', file: ' src/a.ts ', line: '7' },
+        { text: 'Backwards range', startLine: 9, endLine: 3, severity: 'urgent' },
+        { severity: 'low' },
+        42,
+        null,
+      ]),
+      [
+        { text: 'Plain text' },
+        { text: 'From description', severity: 'high', category: 'security' },
+        { text: 'Line as string', file: 'src/a.ts', startLine: 7, endLine: 7 },
+        { text: 'Backwards range', startLine: 9, endLine: 9 },
+      ]
+    );
+  });
+
+  it('returns an empty list for anything but an array', () => {
+    assert.deepEqual(normalizeFindings('risk'), []);
+    assert.deepEqual(normalizeFindings(undefined), []);
+  });
+});
+
+describe('validateFindingLocations', () => {
+  it('keeps locations inside a hunk and resolves prefixed paths', () => {
+    assert.deepEqual(
+      validateFindingLocations(
+        [
+          { text: 'a', file: 'src/server.ts', startLine: 11, endLine: 11 },
+          { text: 'b', file: 'b/src/server.ts', startLine: 40, endLine: 42 },
+          { text: 'c', file: './util/format.ts', startLine: 2 },
+        ],
+        files
+      ),
+      [
+        { text: 'a', file: 'src/server.ts', startLine: 11, endLine: 11 },
+        { text: 'b', file: 'src/server.ts', startLine: 40, endLine: 42 },
+        { text: 'c', file: 'lib/util/format.ts', startLine: 2 },
+      ]
+    );
+  });
+
+  it('drops lines outside every hunk but keeps the file', () => {
+    assert.deepEqual(
+      validateFindingLocations(
+        [{ text: 'a', file: 'src/server.ts', startLine: 20, endLine: 30 }],
+        files
+      ),
+      [{ text: 'a', file: 'src/server.ts' }]
+    );
+  });
+
+  it('drops the whole location for unknown files and lines without a file', () => {
+    assert.deepEqual(
+      validateFindingLocations(
+        [
+          { text: 'a', file: 'src/client.ts', startLine: 11 },
+          { text: 'b', startLine: 11, endLine: 12 },
+        ],
+        files
+      ),
+      [{ text: 'a' }, { text: 'b' }]
+    );
+  });
+});
+
+describe('anchorFinding', () => {
+  it('anchors lines inside a hunk', () => {
+    assert.deepEqual(
+      anchorFinding({ text: 'a', file: 'src/server.ts', startLine: 11, endLine: 12 }, files),
+      { path: 'src/server.ts', startLine: 11, endLine: 12 }
+    );
+  });
+
+  it('clamps a range to the hunk it overlaps most', () => {
+    assert.deepEqual(
+      anchorFinding({ text: 'a', file: 'src/server.ts', startLine: 14, endLine: 43 }, files),
+      { path: 'src/server.ts', startLine: 41, endLine: 43 }
+    );
+    assert.deepEqual(
+      anchorFinding({ text: 'a', file: 'src/server.ts', startLine: 5, endLine: 11 }, files),
+      { path: 'src/server.ts', startLine: 10, endLine: 11 }
+    );
+  });
+
+  it('returns null without lines in the diff', () => {
+    assert.equal(anchorFinding({ text: 'a', file: 'src/server.ts' }, files), null);
+    assert.equal(anchorFinding({ text: 'a', file: 'src/server.ts', startLine: 20 }, files), null);
+    assert.equal(anchorFinding({ text: 'a', file: 'src/client.ts', startLine: 11 }, files), null);
+  });
+});
+
+describe('resolveFindingLocation', () => {
+  it('falls back to the first changed line of the file, then of the change', () => {
+    assert.deepEqual(resolveFindingLocation({ text: 'a', file: 'src/server.ts' }, files), {
+      path: 'src/server.ts',
+      startLine: 11,
+      endLine: 11,
+      scope: 'file',
+    });
+    assert.deepEqual(resolveFindingLocation({ text: 'a' }, files), {
+      path: 'src/server.ts',
+      startLine: 11,
+      endLine: 11,
+      scope: 'change',
+    });
+  });
+});
+
+describe('parseFailOn', () => {
+  it('accepts severities and categories as a list or comma-separated', () => {
+    assert.deepEqual(parseFailOn('High, security'), ['high', 'security']);
+    assert.deepEqual(parseFailOn(['critical', '']), ['critical']);
+  });
+
+  it('rejects unknown values', () => {
+    assert.throws(() => parseFailOn('high,severe'), /Invalid fail-on value "severe"/);
+  });
+
+  it('matches severities at or above the threshold and categories exactly', () => {
+    const failOn = parseFailOn('high,security');
+    assert.equal(matchesFailOn({ text: 'a', severity: 'critical' }, failOn), true);
+    assert.equal(matchesFailOn({ text: 'a', severity: 'medium' }, failOn), false);
+    assert.equal(matchesFailOn({ text: 'a', severity: 'low', category: 'security' }, failOn), true);
+    assert.equal(matchesFailOn({ text: 'a' }, failOn), false);
+  });
+});
@@ -0,0 +1,75 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseDiff } from '../src/core/diff-parser';
+import { detectGeneratedFile } from '../src/core/generated';
+
+// A diff that adds a new file with the given lines
+function newFile(path: string, lines: string[]): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    'new file mode 100644',
+    'index 0000000..1111111',
+    '--- /dev/null',
+    `+++ b/${path}`,
+    `@@ -0,0 +1,${lines.length} @@`,
+    ...lines.map((line) => `+${line}`),
+    '',
+  ].join('\n');
+}
+
+function detect(path: string, lines: string[]) {
+  const [file] = parseDiff(newFile(path, lines));
+  return detectGeneratedFile(file);
+}
+
+describe('detectGeneratedFile', () => {
+  it('flags generator headers', () => {
+    assert.deepEqual(
+      detect('api/types.go', ['// Code generated by protoc-gen-go. DO NOT EDIT.', 'package api']),
+      { kind: 'generated', reason: 'generated header' }
+    );
+    assert.deepEqual(detect('src/schema.ts', ['/**', ' * @generated', ' */']), {
+      kind: 'generated',
+      reason: 'generated header',
+    });
+    assert.deepEqual(detect('src/routes.py', ['# Auto-generated by routegen', 'ROUTES = {}']), {
+      kind: 'generated',
+      reason: 'generated header',
+    });
+  });
+
+  it('keeps hand-written files with a "DO NOT EDIT" comment', () => {
+    assert.equal(
+      detect('config/settings.py', [
+        '# Settings for the app.',
+        '# DO NOT EDIT below this line without talking to ops.',
+        'DEBUG = False',
+      ]),
+      null
+    );
+  });
+
+  it('flags minified files', () => {
+    const bundle = `!function(){${'var a=1;'.repeat(200)}}();`;
+    assert.deepEqual(detect('public/app.bundle.js', [bundle]), {
+      kind: 'generated',
+      reason: 'minified',
+    });
+  });
+
+  it('keeps hand-written files with one long data literal', () => {
+    const literal = `export const PALETTE = [${'"#ffffff", '.repeat(120)}];`;
+    assert.equal(
+      detect('src/palette.ts', [
+        "import { Color } from './color';",
+        '',
+        literal,
+        '',
+        'export function pick(index: number): Color {',
+        '  return PALETTE[index % PALETTE.length];',
+        '}',
+      ]),
+      null
+    );
+  });
+});
@@ -0,0 +1,23 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { removeBlock } from '../src/commands/hooks';
+
+const BLOCK = '# >>> diff-intent >>>\ndiff-intent commit-msg\n# <<< diff-intent <<<\n';
+
+describe('removeBlock', () => {
+  it('removes the diff-intent block and keeps the rest of a husky hook', () => {
+    assert.equal(
+      removeBlock(`#!/usr/bin/env sh\nnpx lint-staged\n\n${BLOCK}\nnpm test\n`),
+      '#!/usr/bin/env sh\nnpx lint-staged\n\nnpm test\n'
+    );
+  });
+
+  it('leaves only the shebang when the block was all the hook ran', () => {
+    assert.equal(removeBlock(`#!/usr/bin/env sh\n\n${BLOCK}`), '#!/usr/bin/env sh\n');
+  });
+
+  it('leaves a hook without a complete block unchanged', () => {
+    const content = '#!/usr/bin/env sh\n# >>> diff-intent >>>\nnpx lint-staged\n';
+    assert.equal(removeBlock(content), content);
+  });
+});
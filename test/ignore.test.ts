@@ -0,0 +1,123 @@
+import * as assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+import {
+  compileIgnoreRule,
+  compileIgnoreRules,
+  findIgnoreRule,
+  readIgnoreFiles,
+} from '../src/core/ignore';
+
+// The pattern of the rule that excludes each path, or null when it is kept
+function excluded(patterns: string[], paths: string[]): Record<string, string | null> {
+  const rules = compileIgnoreRules(patterns, 'config');
+  return Object.fromEntries(paths.map((p) => [p, findIgnoreRule(rules, p)?.pattern ?? null]));
+}
+
+describe('compileIgnoreRule', () => {
+  it('skips blank lines and comments and honors escapes', () => {
+    assert.equal(compileIgnoreRule('', 'config'), null);
+    assert.equal(compileIgnoreRule('# comment', 'config'), null);
+    assert.equal(compileIgnoreRule('\\#file', 'config')?.regex.test('#file'), true);
+    assert.equal(compileIgnoreRule('\\!file', 'config')?.negate, false);
+  });
+
+  it('reads negation, directory-only and anchoring', () => {
+    const rule = compileIgnoreRule('!/build/  ', 'config');
+    assert.ok(rule);
+    assert.equal(rule.pattern, '!/build/');
+    assert.equal(rule.negate, true);
+    assert.equal(rule.dirOnly, true);
+    assert.equal(rule.matchBase, false);
+  });
+});
+
+describe('findIgnoreRule', () => {
+  it('matches a pattern without a slash at any depth', () => {
+    assert.deepEqual(excluded(['*.lock'], ['yarn.lock', 'packages/a/yarn.lock', 'lock.ts']), {
+      'yarn.lock': '*.lock',
+      'packages/a/yarn.lock': '*.lock',
+      'lock.ts': null,
+    });
+  });
+
+  it('keeps * and ? within a path segment', () => {
+    assert.deepEqual(excluded(['src/*.ts', 'v?.txt'], ['src/a.ts', 'src/lib/a.ts', 'v1.txt']), {
+      'src/a.ts': 'src/*.ts',
+      'src/lib/a.ts': null,
+      'v1.txt': 'v?.txt',
+    });
+  });
+
+  it('lets ** span directories', () => {
+    assert.deepEqual(
+      excluded(
+        ['**/fixtures/**', 'docs/**/*.png'],
+        ['test/fixtures/a.json', 'docs/img/x/a.png', 'docs/a.png']
+      ),
+      {
+        'test/fixtures/a.json': '**/fixtures/**',
+        'docs/img/x/a.png': 'docs/**/*.png',
+        'docs/a.png': 'docs/**/*.png',
+      }
+    );
+  });
+
+  it('anchors patterns with a leading or inner slash', () => {
+    assert.deepEqual(excluded(['/config.json'], ['config.json', 'app/config.json']), {
+      'config.json': '/config.json',
+      'app/config.json': null,
+    });
+  });
+
+  it('matches directory-only patterns against parent directories', () => {
+    assert.deepEqual(excluded(['build/'], ['build/out.js', 'src/build/x.js', 'build']), {
+      'build/out.js': 'build/',
+      'src/build/x.js': 'build/',
+      build: null,
+    });
+  });
+
+  it('re-includes files with a later negation, but not inside an excluded directory', () => {
+    assert.deepEqual(
+      excluded(
+        ['*.snap', '!keep.snap', 'out/', '!out/keep.js'],
+        ['a.snap', 'keep.snap', 'out/keep.js']
+      ),
+      { 'a.snap': '*.snap', 'keep.snap': null, 'out/keep.js': 'out/' }
+    );
+  });
+});
+
+describe('readIgnoreFiles', () => {
+  it('reads ignore files from the root down, relative to their directory', () => {
+    const paths = [
+      'dist/app.js',
+      'a.snap',
+      'keep.snap',
+      'root-only.txt',
+      'docs/root-only.txt',
+      'docs/drafts/idea.md',
+      'docs/drafts/final.md',
+      'drafts/idea.md',
+    ];
+    const rules = readIgnoreFiles(paths, path.join(__dirname, 'fixtures', 'ignore'));
+    assert.deepEqual(
+      [...new Set(rules.map((r) => r.source))],
+      ['.diffintentignore', 'docs/.diffintentignore']
+    );
+    assert.deepEqual(
+      Object.fromEntries(paths.map((p) => [p, findIgnoreRule(rules, p)?.pattern ?? null])),
+      {
+        'dist/app.js': 'dist/',
+        'a.snap': '*.snap',
+        'keep.snap': null,
+        'root-only.txt': '/root-only.txt',
+        'docs/root-only.txt': null,
+        'docs/drafts/idea.md': 'drafts/**',
+        'docs/drafts/final.md': null,
+        'drafts/idea.md': null,
+      }
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { extractCompletedArrays, findClosingBracket } from '../src/utils/partial-json';
+
+const KEYS = ['purpose', 'changeType', 'risks', 'tests'];
+
+describe('findClosingBracket', () => {
+  it('finds the end of nested values and ignores brackets in strings', () => {
+    const text = 'x {"a": [1, {"b": "]}"}], "c": "\\"}"} tail';
+    assert.equal(findClosingBracket(text, 2), text.indexOf(' tail') - 1);
+    assert.equal(findClosingBracket(text, text.indexOf('[')), text.indexOf('], "c"'));
+  });
+
+  it('returns -1 for an incomplete value', () => {
+    assert.equal(findClosingBracket('{"a": [1, 2', 0), -1);
+    assert.equal(findClosingBracket('["unterminated]', 0), -1);
+  });
+});
+
+describe('extractCompletedArrays', () => {
+  it('returns only the arrays that are complete so far', () => {
+    const response = JSON.stringify(
+      {
+        purpose: ['Add [brackets] and "quotes"'],
+        changeType: ['feature'],
+        risks: [{ text: 'Risk', file: 'a.ts', startLine: 1 }],
+        tests: [],
+      },
+      null,
+      2
+    );
+    const cut = response.indexOf('"Risk"');
+
+    assert.deepEqual(extractCompletedArrays(response.slice(0, cut), KEYS), {
+      purpose: ['Add [brackets] and "quotes"'],
+      changeType: ['feature'],
+    });
+    assert.deepEqual(extractCompletedArrays(response, KEYS), JSON.parse(response));
+  });
+
+  it('finds arrays after a code fence and skips non-arrays', () => {
+    assert.deepEqual(extractCompletedArrays('```json\n{"purpose": "text", "tests": ["t"]', KEYS), {
+      tests: ['t'],
+    });
+  });
+});
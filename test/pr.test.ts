@@ -0,0 +1,153 @@
+import * as assert from 'node:assert/strict';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it, mock } from 'node:test';
+import { runPr } from '../src/commands/pr';
+import { STICKY_COMMENT_MARKER } from '../src/core/github';
+
+const DIFF = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,2 +1,3 @@
+ export const a = 1;
++export const b = 2;
+ export const c = 3;
+`;
+
+const SUMMARY = {
+  purpose: ['Export b'],
+  changeType: ['feature'],
+  risks: [],
+  tests: [],
+};
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  accept: string;
+  body: any;
+}
+
+// Start a server on a free port that answers with `handler` and records every request
+async function startServer(
+  handler: (req: RecordedRequest, res: http.ServerResponse) => void
+): Promise<{ server: http.Server; url: string; requests: RecordedRequest[] }> {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let data = '';
+    req.on('data', (chunk) => {
+      data += chunk;
+    });
+    req.on('end', () => {
+      const recorded = {
+        method: req.method || 'GET',
+        url: req.url || '',
+        accept: String(req.headers.accept || ''),
+        body: data ? JSON.parse(data) : undefined,
+      };
+      requests.push(recorded);
+      handler(recorded, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, url: `http://127.0.0.1:${port}`, requests };
+}
+
+function json(res: http.ServerResponse, value: unknown): void {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(value));
+}
+
+describe('pr command against a mock GitHub API', () => {
+  const comments: { id: number; body: string; html_url: string }[] = [];
+  const env = { ...process.env };
+  let github: Awaited<ReturnType<typeof startServer>>;
+  let llm: Awaited<ReturnType<typeof startServer>>;
+
+  before(async () => {
+    github = await startServer((req, res) => {
+      const path = req.url.split('?')[0];
+      if (path === '/repos/o/r/pulls/7' && req.accept.includes('diff')) {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end(DIFF);
+      } else if (path === '/repos/o/r/pulls/7') {
+        json(res, {
+          number: 7,
+          title: 'Export b',
+          body: '',
+          state: 'open',
+          html_url: 'https://github.test/o/r/pull/7',
+          base: { ref: 'main' },
+          head: { ref: 'feature', sha: 'abc123' },
+        });
+      } else if (path === '/repos/o/r/issues/7/comments' && req.method === 'GET') {
+        json(res, comments);
+      } else if (path === '/repos/o/r/issues/7/comments' && req.method === 'POST') {
+        const comment = {
+          id: comments.length + 1,
+          body: req.body.body,
+          html_url: `https://github.test/o/r/pull/7#issuecomment-${comments.length + 1}`,
+        };
+        comments.push(comment);
+        json(res, comment);
+      } else if (path.startsWith('/repos/o/r/issues/comments/') && req.method === 'PATCH') {
+        const comment = comments.find((c) => c.id === Number(path.split('/').pop()));
+        assert.ok(comment);
+        comment.body = req.body.body;
+        json(res, comment);
+      } else {
+        res.writeHead(404);
+        res.end('{"message":"Not Found"}');
+      }
+    });
+    llm = await startServer((_req, res) =>
+      json(res, {
+        choices: [{ message: { content: JSON.stringify(SUMMARY) }, finish_reason: 'stop' }],
+      })
+    );
+
+    process.env.GITHUB_TOKEN = 'test-token';
+    process.env.LOCAL_LLM_BASE_URL = `${llm.url}/v1`;
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+    process.env = env;
+    github.server.close();
+    llm.server.close();
+  });
+
+  const run = () =>
+    runPr('7', { provider: 'local', repo: 'o/r', apiUrl: github.url, noCache: true });
+
+  it('fetches the pull request and creates the sticky comment', async () => {
+    await run();
+
+    const fetched = github.requests.filter((r) => r.url === '/repos/o/r/pulls/7');
+    assert.ok(fetched.some((r) => r.accept.includes('diff')));
+    assert.ok(fetched.some((r) => r.accept === 'application/vnd.github+json'));
+    assert.equal(llm.requests.length, 1);
+    assert.match(JSON.stringify(llm.requests[0].body), /export const b = 2;/);
+
+    assert.equal(comments.length, 1);
+    assert.ok(comments[0].body.startsWith(STICKY_COMMENT_MARKER));
+    assert.match(comments[0].body, /Export b/);
+  });
+
+  it('updates the same comment on the next run', async () => {
+    const before = github.requests.length;
+    await run();
+
+    const writes = github.requests.slice(before).filter((r) => r.method !== 'GET');
+    assert.deepEqual(
+      writes.map((r) => `${r.method} ${r.url}`),
+      ['PATCH /repos/o/r/issues/comments/1']
+    );
+    assert.equal(comments.length, 1);
+    assert.ok(comments[0].body.startsWith(STICKY_COMMENT_MARKER));
+  });
+});
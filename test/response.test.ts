@@ -0,0 +1,103 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { ChatMessage, ChatResponse } from '../src/providers';
+import {
+  ResponseParseError,
+  completeSummary,
+  parseSummaryContent,
+} from '../src/providers/response';
+
+const VALID = '{"purpose": ["Add b"], "changeType": ["feature"], "risks": [], "tests": []}';
+
+function reply(content: string, truncated = false): ChatResponse {
+  return { content, truncated, meta: { tokens: 10, cost: 0.5, model: 'test-model' } };
+}
+
+// A completion function that returns `responses` in turn and records each call
+function completions(...responses: ChatResponse[]) {
+  const calls: { repair: ChatMessage[]; attempt: number }[] = [];
+  const complete = async (repair: ChatMessage[], attempt: number) => {
+    calls.push({ repair, attempt });
+    return responses[calls.length - 1];
+  };
+  return { calls, complete };
+}
+
+describe('parseSummaryContent', () => {
+  it('reads the JSON object out of code fences and prose', () => {
+    assert.deepEqual(
+      parseSummaryContent(`Here is the analysis:\n\`\`\`json\n${VALID}\n\`\`\`\nDone {}`),
+      { purpose: ['Add b'], changeType: ['feature'], risks: [], tests: [] }
+    );
+  });
+
+  it('coerces single strings and scalars and normalizes findings', () => {
+    assert.deepEqual(
+      parseSummaryContent(
+        '{"purpose": "Add b", "changeType": [1], "risks": "Slow", "tests": [{}]}'
+      ),
+      { purpose: ['Add b'], changeType: ['1'], risks: [{ text: 'Slow' }], tests: [] }
+    );
+  });
+
+  it('describes what is wrong with a malformed response', () => {
+    const cases: [string, RegExp][] = [
+      ['No JSON here', /no JSON object found/],
+      ['{"purpose": ["cut', /incomplete/],
+      ["{'purpose': []}", /invalid JSON/],
+      ['{"summary": "x"}', /none of the expected fields/],
+      ['{"purpose": {"a": 1}}', /"purpose" must be an array of strings/],
+      ['{"risks": 3}', /"risks" must be an array/],
+    ];
+    for (const [content, message] of cases) {
+      assert.throws(
+        () => parseSummaryContent(content),
+        (error) =>
+          error instanceof ResponseParseError &&
+          message.test(error.message) &&
+          error.content === content
+      );
+    }
+  });
+});
+
+describe('completeSummary', () => {
+  it('returns the first response when it parses', async () => {
+    const { calls, complete } = completions(reply(VALID));
+    const { summary, meta } = await completeSummary('Groq', complete);
+
+    assert.deepEqual(summary.purpose, ['Add b']);
+    assert.deepEqual(meta, { tokens: 10, cost: 0.5, model: 'test-model' });
+    assert.deepEqual(calls, [{ repair: [], attempt: 0 }]);
+  });
+
+  it('re-prompts once with the error and sums the usage', async () => {
+    const { calls, complete } = completions(reply('{"purpose": "x",}'), reply(VALID));
+    const { summary, meta } = await completeSummary('Groq', complete);
+
+    assert.deepEqual(summary.changeType, ['feature']);
+    assert.deepEqual(meta, { tokens: 20, cost: 1, model: 'test-model' });
+    assert.equal(calls.length, 2);
+    assert.equal(calls[1].attempt, 1);
+    assert.deepEqual(calls[1].repair[0], { role: 'assistant', content: '{"purpose": "x",}' });
+    assert.equal(calls[1].repair[1].role, 'user');
+    assert.match(calls[1].repair[1].content, /could not be used: invalid JSON/);
+  });
+
+  it('gives up after a second malformed response', async () => {
+    const { complete } = completions(reply('nope'), reply('still nope'));
+    await assert.rejects(
+      completeSummary('Groq', complete),
+      (error) =>
+        error instanceof ResponseParseError &&
+        /Groq returned a malformed analysis twice/.test(error.message) &&
+        error.content === 'still nope'
+    );
+  });
+
+  it('does not repair a response cut off by the token limit', async () => {
+    const { calls, complete } = completions(reply('{"purpose": ["Add', true));
+    await assert.rejects(completeSummary('Groq', complete), ResponseParseError);
+    assert.equal(calls.length, 1);
+  });
+});
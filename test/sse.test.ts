@@ -0,0 +1,85 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+import { parseSSE, parseSSEData, readChatCompletionStream } from '../src/providers/sse';
+
+const stream = fs.readFileSync(path.join(__dirname, 'fixtures', 'chat-stream.sse'));
+
+// A response whose body arrives in chunks of `size` bytes, splitting lines and characters
+function chunked(body: Uint8Array, size: number): Response {
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < body.length; i += size) {
+    chunks.push(body.subarray(i, i + size));
+  }
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(chunk);
+        controller.close();
+      },
+    })
+  );
+}
+
+async function events(response: Response) {
+  const result = [];
+  for await (const event of parseSSE(response)) result.push(event);
+  return result;
+}
+
+describe('parseSSE', () => {
+  it('joins multi-line data, reads event names and skips comments', async () => {
+    const body = ': ping\nevent: message_start\ndata: {"a":\ndata: 1}\n\nid: 4\ndata: last';
+    assert.deepEqual(await events(new Response(body)), [
+      { event: 'message_start', data: '{"a":\n1}' },
+      { event: undefined, data: 'last' },
+    ]);
+  });
+
+  it('parses the same events from any chunking and CRLF line endings', async () => {
+    const expected = await events(new Response(stream));
+    assert.equal(expected.length, 5);
+
+    const crlf = new TextEncoder().encode(stream.toString('utf-8').replace(/\n/g, '\r\n'));
+    for (const size of [1, 3, 7, 64]) {
+      assert.deepEqual(await events(chunked(stream, size)), expected, `chunks of ${size}`);
+      assert.deepEqual(await events(chunked(crlf, size)), expected, `CRLF chunks of ${size}`);
+    }
+  });
+});
+
+describe('parseSSEData', () => {
+  it('names the provider in the error for a malformed payload', () => {
+    assert.deepEqual(parseSSEData('{"ok":true}', 'Groq'), { ok: true });
+    assert.throws(
+      () => parseSSEData('{"choices": [', 'Groq'),
+      /^Error: Groq sent a malformed stream event \(.+\): \{"choices": \[$/
+    );
+  });
+});
+
+describe('readChatCompletionStream', () => {
+  it('collects the content deltas, finish reason and usage', async () => {
+    const deltas: string[] = [];
+    const result = await readChatCompletionStream(
+      chunked(stream, 5),
+      (text) => deltas.push(text),
+      'Groq'
+    );
+
+    assert.deepEqual(deltas, ['{"purpose": ["Add ', 'café"]}']);
+    assert.deepEqual(result, {
+      content: '{"purpose": ["Add café"]}',
+      finishReason: 'stop',
+      usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 },
+    });
+  });
+
+  it('fails on a malformed event', async () => {
+    await assert.rejects(
+      readChatCompletionStream(new Response('data: {"choices":\n\n'), () => {}, 'OpenAI'),
+      /OpenAI sent a malformed stream event/
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import * as assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { parseDiff } from '../src/core/diff-parser';
+import { createTerminalStream } from '../src/output/terminal';
+import type { SummaryResult } from '../src/providers';
+
+const files = parseDiff(`diff --git a/src/app.ts b/src/app.ts
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -10,2 +10,3 @@
+ const a = 1;
++const b = 2;
+ const c = 3;
+`);
+
+const RESPONSE = {
+  purpose: ['Add b'],
+  changeType: ['feature'],
+  risks: [
+    { text: 'In the diff', file: 'src/app.ts', startLine: 11 },
+    { text: 'Outside the diff', file: 'src/app.ts', startLine: 40 },
+  ],
+  tests: [],
+};
+
+const META = { tokens: 10, cost: 0, model: 'test' };
+
+describe('createTerminalStream', () => {
+  let written: string;
+
+  beforeEach(() => {
+    written = '';
+    mock.method(process.stdout, 'write', (chunk: string) => {
+      written += chunk;
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('drops streamed finding lines that are not in the diff', async () => {
+    const stream = await createTerminalStream({ colors: false, files });
+    stream.push(JSON.stringify(RESPONSE));
+    mock.restoreAll();
+
+    assert.match(written, /In the diff src\/app\.ts:11\n/);
+    assert.match(written, /Outside the diff src\/app\.ts\n/);
+  });
+
+  it('appends only the remaining sections of the same response', async () => {
+    const stream = await createTerminalStream({ colors: false, files });
+    stream.push('{"purpose": ["Add b"], "changeType": ["feature"], "risks": [');
+    mock.restoreAll();
+    const result: SummaryResult = {
+      ...RESPONSE,
+      risks: [{ text: 'In the diff', file: 'src/app.ts', startLine: 11, endLine: 11 }],
+      meta: META,
+    };
+
+    const rest = await stream.finish(result);
+    assert.match(written, /Add b/);
+    assert.doesNotMatch(rest, /Add b|malformed/);
+    assert.match(rest, /In the diff src\/app\.ts:11/);
+  });
+
+  it('shows the whole repaired result when it differs from the streamed sections', async () => {
+    const stream = await createTerminalStream({ colors: false, files });
+    stream.push('{"purpose": ["Broken attempt"], "changeType": ["feature"], "risks": oops');
+    mock.restoreAll();
+    const repaired: SummaryResult = { ...RESPONSE, purpose: ['Add b'], risks: [], meta: META };
+
+    const output = await stream.finish(repaired);
+    assert.match(output, /repaired analysis follows/);
+    assert.match(output, /Purpose\n\s+└─ Add b/);
+    assert.match(output, /Change Type\n\s+└─ feature/);
+  });
+});